@@ -0,0 +1,84 @@
+import { Document, Position, Range, Uri, window, workspace } from 'coc.nvim'
+import { ProviderManager } from './provider'
+import { Snippet, SnippetEditWithSource } from './types'
+import { getSnippetFiletype, insertSnippetEdit, sameFile, snippetToEdit } from './util'
+
+// location of snippet definition, lnum is 0 based
+export interface SnippetLocation {
+  filepath: string
+  lnum: number
+}
+
+export type SnippetTarget = string | SnippetLocation
+
+async function currentDocument(): Promise<Document | undefined> {
+  let bufnr = await workspace.nvim.call('bufnr', ['%']) as number
+  return workspace.getDocument(bufnr)
+}
+
+function isTarget(snippet: Snippet | SnippetEditWithSource, target: SnippetTarget): boolean {
+  if (typeof target === 'string') return snippet.prefix == target
+  let filepath = 'filepath' in snippet ? snippet.filepath : snippet.location
+  return sameFile(filepath, target.filepath) && snippet.lnum == target.lnum
+}
+
+/**
+ * Snippets of filetype, snippets of current buffer when filetype not provided.
+ */
+export async function listSnippets(manager: ProviderManager, filetype?: string): Promise<Snippet[]> {
+  if (filetype) {
+    // filetype may not be loaded when no buffer of it opened
+    await manager.loadSnippetsByFiletype(filetype)
+    return manager.getSnippets(filetype)
+  }
+  let doc = await currentDocument()
+  if (!doc) return []
+  return manager.getSnippets(getSnippetFiletype(doc), Uri.parse(doc.uri).fsPath)
+}
+
+export async function getTriggerSnippets(manager: ProviderManager, bufnr?: number, position?: Position): Promise<SnippetEditWithSource[]> {
+  if (bufnr == null) bufnr = await workspace.nvim.call('bufnr', ['%']) as number
+  return await manager.getTriggerSnippets(bufnr, false, position)
+}
+
+/**
+ * Expand snippet of prefix or location in current buffer, the snippet
+ * triggered before cursor is used when range not provided, otherwise the body
+ * is inserted to range or cursor position.
+ */
+export async function expandSnippet(manager: ProviderManager, target: SnippetTarget, range?: Range): Promise<boolean> {
+  let doc = await currentDocument()
+  if (!doc) return false
+  if (!range) {
+    let edits = await manager.getTriggerSnippets(doc.bufnr)
+    let edit = edits.find(o => isTarget(o, target))
+    if (edit) {
+      await insertSnippetEdit(edit)
+      return true
+    }
+  }
+  let snippets = await listSnippets(manager)
+  let snippet = snippets.find(o => isTarget(o, target))
+  if (!snippet) return false
+  if (!range) {
+    let pos = await window.getCursorPosition()
+    range = Range.create(pos, pos)
+  }
+  await insertSnippetEdit(snippetToEdit(snippet, range))
+  return true
+}
+
+/**
+ * Resolved text of snippet for preview.
+ */
+export async function resolveSnippet(manager: ProviderManager, target: Snippet | SnippetTarget): Promise<string | undefined> {
+  let snippet: Snippet | undefined
+  if (typeof target !== 'string' && 'body' in target) {
+    snippet = target
+  } else {
+    let snippets = await listSnippets(manager)
+    snippet = snippets.find(o => isTarget(o, target))
+  }
+  if (!snippet) return undefined
+  return await manager.resolveSnippet(snippet)
+}
@@ -0,0 +1,83 @@
+import os from 'os'
+import { SnippetEditWithSource } from './types'
+import { openScratchBuffer } from './util'
+
+// rule that decided the expanded snippet of conflict, `usage` when snippets
+// left are reordered by usage
+export type ResolveRule = 'context' | 'match length' | 'priority' | 'usage' | 'picker' | 'first'
+
+export interface AutoTriggerConflict {
+  time: Date
+  filepath: string
+  // 0 based line of trigger
+  line: number
+  candidates: SnippetEditWithSource[]
+  // undefined when chosen from picker
+  chosen?: SnippetEditWithSource
+  rule: ResolveRule
+}
+
+// max count of recorded conflicts
+const maxConflicts = 100
+const conflicts: AutoTriggerConflict[] = []
+
+function matchLength(edit: SnippetEditWithSource): number {
+  return edit.range.end.character - edit.range.start.character
+}
+
+function keepMax(edits: SnippetEditWithSource[], fn: (edit: SnippetEditWithSource) => number): SnippetEditWithSource[] {
+  let max = Math.max(...edits.map(fn))
+  return edits.filter(o => fn(o) == max)
+}
+
+/**
+ * Narrow auto trigger snippets, snippets with context are preferred, then
+ * the longer matched trigger text like regex match, then the higher priority.
+ * The rule that leaves single snippet is returned.
+ */
+export function resolveAutoTrigger(edits: SnippetEditWithSource[]): { edits: SnippetEditWithSource[], rule?: ResolveRule } {
+  if (edits.length < 2) return { edits }
+  if (edits.some(o => o.context)) {
+    edits = edits.filter(o => o.context)
+    if (edits.length == 1) return { edits, rule: 'context' }
+  }
+  edits = keepMax(edits, matchLength)
+  if (edits.length == 1) return { edits, rule: 'match length' }
+  edits = keepMax(edits, o => o.priority ?? 0)
+  if (edits.length == 1) return { edits, rule: 'priority' }
+  return { edits }
+}
+
+export function recordAutoTriggerConflict(conflict: AutoTriggerConflict): void {
+  conflicts.push(conflict)
+  if (conflicts.length > maxConflicts) conflicts.shift()
+}
+
+export function getAutoTriggerConflicts(): ReadonlyArray<AutoTriggerConflict> {
+  return conflicts
+}
+
+export function clearAutoTriggerConflicts(): void {
+  conflicts.splice(0, conflicts.length)
+}
+
+/**
+ * Open recorded conflicts in a scratch buffer, latest first, locations could
+ * be opened by gF.
+ */
+export async function showAutoTriggerConflicts(list: ReadonlyArray<AutoTriggerConflict>): Promise<void> {
+  let lines = ['Snippets conflicted on auto trigger, latest first, use gF to open location.']
+  for (let conflict of list.slice().reverse()) {
+    let { chosen, rule } = conflict
+    let filepath = conflict.filepath.replace(os.homedir(), '~')
+    lines.push('', `${conflict.time.toLocaleTimeString()} ${filepath}:${conflict.line + 1} resolved by ${rule}`)
+    for (let edit of conflict.candidates) {
+      let status = edit === chosen ? 'expanded' : chosen ? 'skipped' : 'candidate'
+      let line = `  ${status.padEnd(10)}[${edit.source}] ${edit.prefix} priority ${edit.priority ?? 0}`
+      if (edit.context) line += ` context "${edit.context}"`
+      line += ` ${edit.location}:${edit.lnum + 1}`
+      lines.push(line)
+    }
+  }
+  await openScratchBuffer(lines)
+}
@@ -1,7 +1,7 @@
-import { Document, OutputChannel, Position } from 'coc.nvim'
+import { Document, OutputChannel, Position, Uri } from 'coc.nvim'
 import minimatch from 'minimatch'
 import { Config, Snippet, SnippetEdit } from './types'
-import { distinct, getSnippetFiletype } from './util'
+import { distinct, getSnippetFiletype, isSnippetAvailable } from './util'
 
 export default abstract class BaseProvider {
   constructor(protected config: Config, protected channel: OutputChannel) {
@@ -13,6 +13,14 @@ export default abstract class BaseProvider {
   public abstract getTriggerSnippets(document: Document, position: Position, autoTrigger?: boolean): Promise<SnippetEdit[]>
   public resolveSnippetBody?(snippet: string): Promise<string>
 
+  /**
+   * Snippets of filetype, including snippets shadowed by other snippets of
+   * the same provider.
+   */
+  public getAllSnippets(filetype: string): Snippet[] {
+    return this.getSnippets(filetype)
+  }
+
   public async checkContext(_context: string): Promise<any> {
     return true
   }
@@ -26,7 +34,19 @@ export default abstract class BaseProvider {
 
   protected getDocumentSnippets(doc: Document): Snippet[] {
     let filetype = getSnippetFiletype(doc)
-    return this.getSnippets(filetype)
+    let filepath = Uri.parse(doc.uri).fsPath
+    return this.getSnippets(filetype).filter(s => isSnippetAvailable(s, filepath))
+  }
+
+  /**
+   * Snippet should be expanded on type, by option of snippet or prefixes of
+   * autoTriggerPrefixes configuration.
+   */
+  protected isAutoTrigger(snippet: Snippet, filetype: string): boolean {
+    if (snippet.autoTrigger) return true
+    let prefixes = this.config.autoTriggerPrefixes ?? {}
+    let filetypes = this.getFiletypes(filetype).concat(['all'])
+    return filetypes.some(ft => Array.isArray(prefixes[ft]) && prefixes[ft].includes(snippet.prefix))
   }
 
   protected isIgnored(filepath: string): boolean {
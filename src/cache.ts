@@ -0,0 +1,107 @@
+import { Disposable } from 'coc.nvim'
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * Version of parsed results, increase it when output of the snippet parsers
+ * changed, so outdated cache would be dropped.
+ */
+export const PARSER_VERSION = 5
+
+export type CacheKind = 'ultisnips' | 'snipmate' | 'textmate'
+
+interface CacheEntry {
+  mtime: number
+  size: number
+  data: any
+}
+
+interface CacheContent {
+  version: number
+  entries: { [key: string]: CacheEntry }
+}
+
+/**
+ * Parsed results of snippet files, stored in extension storage folder and
+ * keyed by filepath, mtime and size of snippet file.
+ */
+export class ParseCache implements Disposable {
+  private entries: Map<string, CacheEntry> | undefined
+  private timer: NodeJS.Timeout | undefined
+  constructor(private folder: string, private delay = 500) {
+  }
+
+  public get cacheFile(): string {
+    return path.join(this.folder, 'snippets-cache.json')
+  }
+
+  public get<T>(kind: CacheKind, filepath: string, stat: fs.Stats | null): T | undefined {
+    if (!stat) return undefined
+    let entry = this.load().get(`${kind}:${filepath}`)
+    if (!entry || entry.mtime !== stat.mtimeMs || entry.size !== stat.size) return undefined
+    return entry.data as T
+  }
+
+  public set<T>(kind: CacheKind, filepath: string, stat: fs.Stats | null, data: T): void {
+    if (!stat) return
+    this.load().set(`${kind}:${filepath}`, { mtime: stat.mtimeMs, size: stat.size, data })
+    this.scheduleSave()
+  }
+
+  public delete(kind: CacheKind, filepath: string): void {
+    if (this.load().delete(`${kind}:${filepath}`)) this.scheduleSave()
+  }
+
+  public clear(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = undefined
+    this.entries = new Map()
+    if (fs.existsSync(this.cacheFile)) fs.unlinkSync(this.cacheFile)
+  }
+
+  private load(): Map<string, CacheEntry> {
+    if (this.entries) return this.entries
+    this.entries = new Map()
+    try {
+      if (!fs.existsSync(this.cacheFile)) return this.entries
+      let content = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as CacheContent
+      if (content.version !== PARSER_VERSION) return this.entries
+      for (let [key, entry] of Object.entries(content.entries ?? {})) {
+        this.entries.set(key, entry)
+      }
+    } catch (e) {
+      // ignore broken cache file
+    }
+    return this.entries
+  }
+
+  private scheduleSave(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.save()
+    }, this.delay)
+  }
+
+  private save(): void {
+    if (!this.entries) return
+    let content: CacheContent = { version: PARSER_VERSION, entries: {} }
+    for (let [key, entry] of this.entries.entries()) {
+      content.entries[key] = entry
+    }
+    try {
+      fs.mkdirSync(this.folder, { recursive: true })
+      fs.writeFileSync(this.cacheFile, JSON.stringify(content), 'utf8')
+    } catch (e) {
+      // ignore error of write cache
+    }
+  }
+
+  public dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+      this.save()
+    }
+  }
+}
@@ -0,0 +1,336 @@
+import { OutputChannel, Uri, window, workspace, WorkspaceConfiguration } from 'coc.nvim'
+import fs from 'fs'
+import { parse } from 'jsonc-parser'
+import path from 'path'
+import { Snippet, TriggerKind } from './types'
+import { getSnippetsDirectory } from './ultisnipsProvider'
+
+export type SnippetFormat = 'ultisnips' | 'snipmate' | 'vscode'
+
+export const snippetFormats: SnippetFormat[] = ['ultisnips', 'snipmate', 'vscode']
+
+export interface ConvertProblem {
+  snippet: Snippet
+  message: string
+  // snippet not converted
+  skipped: boolean
+}
+
+export interface ConvertResult {
+  text: string
+  count: number
+  problems: ConvertProblem[]
+  // snippets object of vscode format
+  json?: { [key: string]: VSCodeSnippet }
+}
+
+export interface VSCodeSnippet {
+  prefix: string | string[]
+  body: string[]
+  description?: string
+  scope?: string
+  syntax?: string[]
+  autotrigger?: boolean
+}
+
+interface ConvertOption {
+  // add scope to vscode snippets
+  scope?: boolean
+}
+
+type Interpolation = 'python' | 'javascript' | 'vim' | 'shell'
+
+const interpolationNames: { [key in Interpolation]: string } = {
+  python: 'python interpolation',
+  javascript: 'javascript interpolation',
+  vim: 'vim interpolation',
+  shell: 'shell interpolation'
+}
+
+/**
+ * Convert snippets from any provider to content of snippets file in format.
+ */
+export function convertSnippets(snippets: Snippet[], format: SnippetFormat, option: ConvertOption = {}): ConvertResult {
+  if (format == 'ultisnips') return toUltiSnips(snippets)
+  if (format == 'snipmate') return toSnipmate(snippets)
+  return toVSCode(snippets, option)
+}
+
+function isUltiSnipsLike(snippet: Snippet): boolean {
+  return snippet.provider == 'ultisnips' || snippet.provider == 'snipmate'
+}
+
+function getInterpolations(snippet: Snippet): Interpolation[] {
+  if (!isUltiSnipsLike(snippet)) return []
+  let res: Interpolation[] = []
+  let re = /(?<!\\)`(!p|!js|!v)?([^`]|\\`)*?(?<!\\)`/g
+  let ms: RegExpExecArray | null
+  while ((ms = re.exec(snippet.body)) !== null) {
+    let kind: Interpolation = ms[1] == '!p' ? 'python' : ms[1] == '!js' ? 'javascript' : ms[1] == '!v' ? 'vim' : 'shell'
+    if (!res.includes(kind)) res.push(kind)
+  }
+  return res
+}
+
+function toVisual(body: string): string {
+  return body.replace(/\$\{TM_SELECTED_TEXT(?=[:}/])/g, '${VISUAL').replace(/\$TM_SELECTED_TEXT\b/g, '${VISUAL}')
+}
+
+function toSelectedText(body: string): string {
+  return body.replace(/\$\{VISUAL(?=[:}/])/g, '${TM_SELECTED_TEXT').replace(/\$VISUAL\b/g, '$TM_SELECTED_TEXT')
+}
+
+function getOptionName(snippet: Snippet): string[] {
+  let res: string[] = []
+  if (snippet.triggerKind == TriggerKind.LineBegin) res.push('b')
+  if (snippet.triggerKind == TriggerKind.InWord && !snippet.originRegex) res.push('i')
+  if (snippet.autoTrigger) res.push('A')
+  let formatOptions = snippet.formatOptions ?? {}
+  if (formatOptions.noExpand) res.push('t')
+  if (formatOptions.trimTrailingWhitespace) res.push('m')
+  if (formatOptions.removeWhiteSpace) res.push('s')
+  let wordBoundary = snippet.triggerKind == TriggerKind.WordBoundary || snippet.triggerKind == TriggerKind.PrefixBoundary
+  if (wordBoundary && !snippet.originRegex) res.push('w')
+  return res
+}
+
+/**
+ * Report features not supported by target format, returns false when snippet
+ * can't be converted.
+ */
+function checkUnsupported(snippet: Snippet, format: SnippetFormat, problems: ConvertProblem[]): boolean {
+  let name = format == 'snipmate' ? 'SnipMate' : 'VSCode'
+  let skip = (message: string): boolean => {
+    problems.push({ snippet, message, skipped: true })
+    return false
+  }
+  if (snippet.regex || snippet.originRegex) return skip(`regex trigger not supported by ${name}`)
+  if (snippet.context) return skip(`context not supported by ${name}`)
+  if (format == 'snipmate' && /\s/.test(snippet.prefix)) return skip(`trigger with whitespace not supported by ${name}`)
+  for (let kind of getInterpolations(snippet)) {
+    if (format == 'snipmate' && kind == 'vim') continue
+    return skip(`${interpolationNames[kind]} not supported by ${name}`)
+  }
+  // auto trigger is supported by all formats, triggers of both are word boundary
+  for (let opt of getOptionName(snippet).filter(o => o != 'A' && o != 'w')) {
+    problems.push({ snippet, message: `option "${opt}" dropped, not supported by ${name}`, skipped: false })
+  }
+  let actions = Object.keys(snippet.actions ?? {}).filter(key => !!snippet.actions[key])
+  if (actions.length) {
+    problems.push({ snippet, message: `actions ${actions.join(', ')} dropped, not supported by ${name}`, skipped: false })
+  }
+  if (snippet.provider == 'ultisnips' && snippet.priority) {
+    problems.push({ snippet, message: `priority ${snippet.priority} dropped, not supported by ${name}`, skipped: false })
+  }
+  if (format == 'snipmate' && snippet.syntax) {
+    problems.push({ snippet, message: `syntax dropped, not supported by ${name}`, skipped: false })
+  }
+  return true
+}
+
+function ultisnipsTrigger(snippet: Snippet): string {
+  let trigger = snippet.originRegex ?? snippet.prefix
+  if (snippet.originRegex || /\s/.test(trigger)) {
+    let quote = ['"', '!', '|', '#', '%', '@'].find(c => !trigger.includes(c)) ?? '"'
+    return quote + trigger + quote
+  }
+  return trigger
+}
+
+const actionNames = {
+  preExpand: 'pre_expand',
+  postExpand: 'post_expand',
+  postJump: 'post_jump'
+}
+
+function toUltiSnips(snippets: Snippet[]): ConvertResult {
+  let problems: ConvertProblem[] = []
+  let lines: string[] = []
+  let priority = 0
+  let count = 0
+  let converted: Set<string> = new Set()
+  for (let snippet of snippets) {
+    // prefixes of regex snippet created from the same definition
+    if (snippet.originRegex) {
+      let key = `${snippet.filepath}:${snippet.lnum}`
+      if (converted.has(key)) continue
+      converted.add(key)
+    }
+    let body = isUltiSnipsLike(snippet) ? snippet.body : toVisual(snippet.body.replace(/`/g, '\\`'))
+    if (body.split(/\r?\n/).some(line => /^endsnippet\b/.test(line))) {
+      problems.push({ snippet, message: 'body contains "endsnippet" line', skipped: true })
+      continue
+    }
+    let p = snippet.provider == 'ultisnips' ? snippet.priority ?? 0 : 0
+    if (p != priority) {
+      lines.push(`priority ${p}`, '')
+      priority = p
+    }
+    let options = getOptionName(snippet)
+    if (snippet.originRegex) options.push('r')
+    if (snippet.context) {
+      options.push('e')
+      lines.push(`context "${snippet.context}"`)
+    }
+    if (snippet.syntax) lines.push(`syntax "${snippet.syntax.join(', ')}"`)
+    for (let [key, name] of Object.entries(actionNames)) {
+      let code = snippet.actions ? snippet.actions[key] : undefined
+      if (code) lines.push(`${name} "${code}"`)
+    }
+    let description = (snippet.description ?? '').replace(/"/g, '\'').replace(/\r?\n/g, ' ')
+    let header = `snippet ${ultisnipsTrigger(snippet)}`
+    if (description || options.length) header += ` "${description}"`
+    if (options.length) header += ` ${options.join('')}`
+    lines.push(header, ...body.split(/\r?\n/), 'endsnippet', '')
+    count++
+  }
+  return { text: lines.join('\n'), count, problems }
+}
+
+function toSnipmate(snippets: Snippet[]): ConvertResult {
+  let problems: ConvertProblem[] = []
+  let lines: string[] = []
+  let count = 0
+  for (let snippet of snippets) {
+    if (!checkUnsupported(snippet, 'snipmate', problems)) continue
+    let body = snippet.body
+    if (isUltiSnipsLike(snippet)) {
+      body = body.replace(/(?<!\\)`!v\s+(.*?)(?<!\\)`/g, '`$1`')
+    } else {
+      body = toVisual(body.replace(/`/g, '\\`'))
+    }
+    let description = (snippet.description ?? '').replace(/\r?\n/g, ' ')
+    let keyword = snippet.autoTrigger ? 'autosnippet' : 'snippet'
+    lines.push(description ? `${keyword} ${snippet.prefix} ${description}` : `${keyword} ${snippet.prefix}`)
+    lines.push(...body.split(/\r?\n/).map(line => '\t' + line))
+    count++
+  }
+  return { text: lines.join('\n') + '\n', count, problems }
+}
+
+function toVSCode(snippets: Snippet[], option: ConvertOption): ConvertResult {
+  let problems: ConvertProblem[] = []
+  let json: { [key: string]: VSCodeSnippet } = {}
+  // same definition with multiple prefixes
+  let definitions: Map<string, VSCodeSnippet> = new Map()
+  let count = 0
+  for (let snippet of snippets) {
+    let def = definitions.get(`${snippet.filepath}:${snippet.lnum}`)
+    if (def && !isUltiSnipsLike(snippet)) {
+      let prefixes = Array.isArray(def.prefix) ? def.prefix : [def.prefix]
+      if (!prefixes.includes(snippet.prefix)) def.prefix = prefixes.concat([snippet.prefix])
+      continue
+    }
+    if (!checkUnsupported(snippet, 'vscode', problems)) continue
+    let body = snippet.body
+    if (isUltiSnipsLike(snippet)) body = toSelectedText(body).replace(/\\`/g, '`')
+    let item: VSCodeSnippet = {
+      prefix: snippet.prefix,
+      body: body.split(/\r?\n/)
+    }
+    if (snippet.description) item.description = snippet.description
+    if (snippet.syntax) item.syntax = snippet.syntax
+    if (snippet.autoTrigger) item.autotrigger = true
+    if (option.scope && snippet.filetype && snippet.filetype != 'all' && snippet.filetype != '_') {
+      item.scope = snippet.filetype
+    }
+    let name = snippet.description || snippet.prefix
+    let key = name
+    for (let i = 2; json[key] != null; i++) {
+      key = `${name} (${i})`
+    }
+    json[key] = item
+    definitions.set(`${snippet.filepath}:${snippet.lnum}`, item)
+    count++
+  }
+  return { text: JSON.stringify(json, null, 2) + '\n', count, problems, json }
+}
+
+function getFormat(filepath: string): SnippetFormat | undefined {
+  if (filepath.endsWith('.json') || filepath.endsWith('.code-snippets')) return 'vscode'
+  return undefined
+}
+
+/**
+ * Commands and list action for convert snippets between formats.
+ */
+export class SnippetsConverter {
+  constructor(
+    private channel: OutputChannel,
+    private configuration: WorkspaceConfiguration
+  ) {
+  }
+
+  public async pickFormat(format?: string): Promise<SnippetFormat | undefined> {
+    if (snippetFormats.includes(format as SnippetFormat)) return format as SnippetFormat
+    let idx = await window.showMenuPicker(['UltiSnips', 'SnipMate', 'VSCode JSON'], { title: 'Convert to format' })
+    return idx == -1 ? undefined : snippetFormats[idx]
+  }
+
+  private async getTarget(format: SnippetFormat, filetype: string): Promise<string | undefined> {
+    let ft = filetype.split('.')[0] || 'all'
+    let defaultPath: string
+    if (format == 'ultisnips') {
+      let directory = await getSnippetsDirectory(this.configuration)
+      defaultPath = path.join(directory, `${ft}.snippets`)
+    } else if (format == 'snipmate') {
+      defaultPath = path.join(workspace.cwd, 'snippets', `${ft == 'all' ? '_' : ft}.snippets`)
+    } else {
+      defaultPath = path.join(workspace.cwd, `${ft}.code-snippets`)
+    }
+    let res = await window.requestInput('Output file', defaultPath)
+    return res ? workspace.expand(res) : undefined
+  }
+
+  public async convert(snippets: Snippet[], filetype: string, format?: string, target?: string): Promise<void> {
+    let fmt = await this.pickFormat(format)
+    if (!fmt) return
+    if (!target) target = await this.getTarget(fmt, filetype)
+    if (!target) return
+    let result = convertSnippets(snippets, fmt, { scope: target.endsWith('.code-snippets') })
+    await this.write(target, fmt, result)
+    this.report(result, target)
+    let uri = Uri.file(target).toString()
+    await workspace.jumpTo(uri, null, this.configuration.get<string>('editSnippetsCommand'))
+  }
+
+  private async write(target: string, format: SnippetFormat, result: ConvertResult): Promise<void> {
+    await fs.promises.mkdir(path.dirname(target), { recursive: true })
+    if (!fs.existsSync(target)) {
+      await fs.promises.writeFile(target, result.text, 'utf8')
+      return
+    }
+    let content = await fs.promises.readFile(target, 'utf8')
+    if (format == 'vscode' && getFormat(target) == 'vscode') {
+      let json = parse(content, [], { allowTrailingComma: true }) ?? {}
+      for (let [name, item] of Object.entries(result.json)) {
+        let key = name
+        for (let i = 2; json[key] != null; i++) {
+          key = `${name} (${i})`
+        }
+        json[key] = item
+      }
+      await fs.promises.writeFile(target, JSON.stringify(json, null, 2) + '\n', 'utf8')
+    } else {
+      let sep = content.length == 0 || content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n'
+      await fs.promises.writeFile(target, content + sep + result.text, 'utf8')
+    }
+  }
+
+  private report(result: ConvertResult, target: string): void {
+    let { problems, count } = result
+    let time = (new Date()).toLocaleTimeString()
+    this.channel.appendLine(`[Info  ${time}] Converted ${count} snippets to ${target}`)
+    for (let problem of problems) {
+      let { snippet, message, skipped } = problem
+      let kind = skipped ? 'Error' : 'Warn '
+      this.channel.appendLine(`[${kind} ${time}] ${snippet.prefix} (${snippet.filepath}:${snippet.lnum + 1}): ${message}`)
+    }
+    if (problems.length) {
+      let skipped = problems.filter(o => o.skipped).length
+      void window.showWarningMessage(`Converted ${count} snippets, ${skipped} skipped and ${problems.length - skipped} changed, see :CocCommand snippets.openOutput`)
+    } else {
+      void window.showInformationMessage(`Converted ${count} snippets to ${target}`)
+    }
+  }
+}
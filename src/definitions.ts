@@ -0,0 +1,159 @@
+import { CancellationToken, DefinitionProvider, LinesTextDocument, Location, Position, Range, Uri, workspace } from 'coc.nvim'
+import { ProviderManager } from './provider'
+import { Snippet } from './types'
+import { UltiSnippetsProvider } from './ultisnipsProvider'
+import { isSnippetAvailable, openScratchBuffer, snippetFileFiletype } from './util'
+
+// rule that removed the snippet on expand
+export type ShadowRule = 'priority' | 'clearsnippets' | 'filetype order' | 'dedupe'
+
+export interface SnippetDefinition {
+  snippet: Snippet
+  // not used on expand because of other definition
+  shadowed: boolean
+  rule?: ShadowRule
+}
+
+export interface SnippetConflict {
+  prefix: string
+  definitions: SnippetDefinition[]
+}
+
+function snippetKey(snippet: Snippet): string {
+  return `${snippet.provider}:${snippet.filepath}:${snippet.lnum}:${snippet.prefix}`
+}
+
+/**
+ * Priority of snippet edit used on expand.
+ */
+export function getExpandPriority(snippet: Snippet): number {
+  return snippet.priority ?? (snippet.provider == 'snipmate' ? -1 : 0)
+}
+
+function getAvailableSnippets(manager: ProviderManager, filetype: string, filepath?: string): Snippet[] {
+  let snippets = manager.getAllSnippets(filetype)
+  if (filepath == null) return snippets
+  return snippets.filter(s => isSnippetAvailable(s, filepath))
+}
+
+function getProviderRule(snippet: Snippet, visible: Snippet[], clearsnippets: number | null): ShadowRule {
+  if (snippet.provider != 'ultisnips') return 'dedupe'
+  if (clearsnippets != null && snippet.priority < clearsnippets) return 'clearsnippets'
+  let winner = visible.find(o => o.provider == 'ultisnips' && o.triggerKind == snippet.triggerKind)
+  return winner && winner.priority > snippet.priority ? 'priority' : 'filetype order'
+}
+
+/**
+ * Snippets removed by provider or with lower priority than others are
+ * shadowed, the rule follows the providers and ProviderManager.getTriggerSnippets.
+ */
+function analyzeDefinitions(manager: ProviderManager, filetype: string, visible: Snippet[], all: Snippet[]): SnippetDefinition[] {
+  let keys = new Set(visible.map(o => snippetKey(o)))
+  let max = Math.max(...visible.map(o => getExpandPriority(o)))
+  let provider = manager.getProvider('ultisnips')
+  let clearsnippets = provider instanceof UltiSnippetsProvider ? provider.getClearsnippets(filetype) : null
+  return all.map(snippet => {
+    let rule: ShadowRule | undefined
+    if (!keys.has(snippetKey(snippet))) {
+      rule = getProviderRule(snippet, visible, clearsnippets)
+    } else if (getExpandPriority(snippet) < max) {
+      rule = 'priority'
+    }
+    return { snippet, shadowed: rule != null, rule }
+  })
+}
+
+/**
+ * Get all definitions of prefix for filetype, snippets of other workspace
+ * folders are excluded when filepath is given, like completion.
+ */
+export function getDefinitions(manager: ProviderManager, filetype: string, prefix: string, filepath?: string): SnippetDefinition[] {
+  let visible = manager.getSnippets(filetype, filepath).filter(o => o.prefix == prefix)
+  let all = getAvailableSnippets(manager, filetype, filepath).filter(o => o.prefix == prefix)
+  return analyzeDefinitions(manager, filetype, visible, all)
+}
+
+/**
+ * Get prefixes defined more than once for filetype.
+ */
+export function getConflicts(manager: ProviderManager, filetype: string, filepath?: string): SnippetConflict[] {
+  let groups: Map<string, Snippet[]> = new Map()
+  for (let snippet of getAvailableSnippets(manager, filetype, filepath)) {
+    if (!snippet.prefix) continue
+    let arr = groups.get(snippet.prefix) ?? []
+    arr.push(snippet)
+    groups.set(snippet.prefix, arr)
+  }
+  let visible = manager.getSnippets(filetype, filepath)
+  let res: SnippetConflict[] = []
+  for (let [prefix, all] of groups.entries()) {
+    if (all.length < 2) continue
+    let definitions = analyzeDefinitions(manager, filetype, visible.filter(o => o.prefix == prefix), all)
+    res.push({ prefix, definitions })
+  }
+  res.sort((a, b) => a.prefix.localeCompare(b.prefix))
+  return res
+}
+
+export function getDefinitionLocation(snippet: Snippet): Location {
+  let pos = Position.create(snippet.lnum, 0)
+  return Location.create(Uri.file(snippet.filepath).toString(), Range.create(pos, pos))
+}
+
+/**
+ * Show definitions of prefix in quickfix list.
+ */
+export async function showDefinitions(definitions: SnippetDefinition[], prefix: string): Promise<void> {
+  let { nvim } = workspace
+  let items = definitions.map(o => {
+    let { snippet, shadowed } = o
+    let text = `[${snippet.provider}] priority ${getExpandPriority(snippet)}${shadowed ? ` shadowed by ${o.rule}` : ''}`
+    if (snippet.description) text += ` ${snippet.description.split(/\r?\n/)[0]}`
+    return { filename: snippet.filepath, lnum: snippet.lnum + 1, col: 1, text }
+  })
+  await nvim.call('setqflist', [[], ' ', { title: `Definitions of snippet "${prefix}"`, items }])
+  nvim.command('botright copen', true)
+}
+
+/**
+ * Open report of conflicts in a scratch buffer, locations could be opened by gF.
+ */
+export async function showConflicts(conflicts: SnippetConflict[], filetype: string): Promise<void> {
+  let lines = [`Snippet prefixes defined more than once for filetype "${filetype}", use gF to open location.`]
+  for (let { prefix, definitions } of conflicts) {
+    let winners = definitions.filter(o => !o.shadowed).length
+    lines.push('', prefix)
+    for (let { snippet, rule } of definitions) {
+      let status = rule ? `shadowed by ${rule}` : winners > 1 ? 'wins, pick on expand' : 'wins'
+      let line = `  ${status.padEnd(28)}[${snippet.provider}] priority ${getExpandPriority(snippet)}`
+      if (snippet.context) line += ` context "${snippet.context}"`
+      line += ` ${snippet.filepath}:${snippet.lnum + 1}`
+      lines.push(line)
+    }
+  }
+  await openScratchBuffer(lines)
+}
+
+/**
+ * Jump to all definitions of trigger under cursor inside snippet files.
+ */
+export class SnippetDefinitionProvider implements DefinitionProvider {
+  constructor(private manager: ProviderManager) {
+  }
+
+  public provideDefinition(document: LinesTextDocument, position: Position, _token: CancellationToken): Location[] {
+    let line = document.lines[position.line] ?? ''
+    let re = /[^\s"',[\]]+/g
+    let ms: RegExpExecArray | null
+    let prefix: string | undefined
+    while ((ms = re.exec(line)) !== null) {
+      if (ms.index <= position.character && ms.index + ms[0].length >= position.character) {
+        prefix = ms[0]
+        break
+      }
+    }
+    if (!prefix) return []
+    let filepath = Uri.parse(document.uri).fsPath
+    return getDefinitions(this.manager, snippetFileFiletype(filepath), prefix, filepath).map(o => getDefinitionLocation(o.snippet))
+  }
+}
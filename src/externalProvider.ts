@@ -0,0 +1,69 @@
+import { Disposable, Document, OutputChannel, Position } from 'coc.nvim'
+import BaseProvider from './baseProvider'
+import { Config, ExternalSnippetsProvider, Snippet, SnippetEdit } from './types'
+
+/**
+ * Provider registered by other extension, snippets are cached by filetype
+ * until the provider notify change of snippets.
+ */
+export class ExternalProvider extends BaseProvider {
+  private cached: Map<string, Snippet[]> = new Map()
+  private disposables: Disposable[] = []
+
+  constructor(
+    private name: string,
+    private provider: ExternalSnippetsProvider,
+    config: Config,
+    channel: OutputChannel
+  ) {
+    super(config, channel)
+    if (typeof provider.resolveSnippetBody === 'function') {
+      this.resolveSnippetBody = body => Promise.resolve(provider.resolveSnippetBody(body))
+    }
+  }
+
+  public async init(): Promise<void> {
+    if (this.provider.onDidChangeSnippets) {
+      this.disposables.push(this.provider.onDidChangeSnippets(() => {
+        this.info(`Snippets of "${this.name}" changed`)
+        this.cached.clear()
+      }))
+    }
+    if (typeof this.provider.init === 'function') await this.provider.init()
+  }
+
+  public async loadSnippetsByFiletype(filetype: string): Promise<void> {
+    if (typeof this.provider.loadSnippetsByFiletype === 'function') {
+      await this.provider.loadSnippetsByFiletype(filetype)
+    }
+  }
+
+  public getSnippets(filetype: string): Snippet[] {
+    let snippets = this.cached.get(filetype)
+    if (!snippets) {
+      snippets = this.provider.getSnippets(filetype) ?? []
+      this.cached.set(filetype, snippets)
+    }
+    return snippets
+  }
+
+  public async getSnippetFiles(filetype: string): Promise<string[]> {
+    if (typeof this.provider.getSnippetFiles !== 'function') return []
+    return await Promise.resolve(this.provider.getSnippetFiles(filetype))
+  }
+
+  public async getTriggerSnippets(document: Document, position: Position, autoTrigger?: boolean): Promise<SnippetEdit[]> {
+    return await Promise.resolve(this.provider.getTriggerSnippets(document, position, autoTrigger)) ?? []
+  }
+
+  public async checkContext(context: string): Promise<any> {
+    if (typeof this.provider.checkContext !== 'function') return true
+    return await Promise.resolve(this.provider.checkContext(context))
+  }
+
+  public dispose(): void {
+    this.cached.clear()
+    this.disposables.forEach(d => d.dispose())
+    this.disposables = []
+  }
+}
@@ -0,0 +1,98 @@
+import { CancellationToken, Hover, HoverProvider, Position, Range, TextDocument, Uri } from 'coc.nvim'
+import { ProviderManager } from './provider'
+import { getSnippetBlocks, getSnippetFileFormat, SnippetBlock, SnippetFileFormat } from './snippetDocument'
+import { convertBody } from './snipmateProvider'
+import { Snippet, TriggerKind } from './types'
+import UltiSnipsParser from './ultisnipsParser'
+import { markdownBlock, snippetFileFiletype } from './util'
+
+const triggerKindNames = {
+  [TriggerKind.SpaceBefore]: 'after whitespace',
+  [TriggerKind.LineBegin]: 'beginning of line',
+  [TriggerKind.WordBoundary]: 'word boundary',
+  [TriggerKind.InWord]: 'in word',
+  [TriggerKind.PrefixBoundary]: 'word boundary'
+}
+
+const actionNames = {
+  preExpand: 'pre_expand',
+  postExpand: 'post_expand',
+  postJump: 'post_jump'
+}
+
+/**
+ * Show resolved body and parsed properties of snippet on header of snippet
+ * definition.
+ */
+export class SnippetHoverProvider implements HoverProvider {
+  private parser = new UltiSnipsParser()
+  constructor(private manager: ProviderManager) {
+  }
+
+  public async provideHover(document: TextDocument, position: Position, _token: CancellationToken): Promise<Hover | null> {
+    let content = document.getText()
+    let format = getSnippetFileFormat(document.uri, content)
+    if (!format) return null
+    let block = getSnippetBlocks(format, content).find(o => o.kind == 'snippet' && o.start == position.line)
+    if (!block) return null
+    let filepath = Uri.parse(document.uri).fsPath
+    let lines: string[] = []
+    let filetype = snippetFileFiletype(filepath)
+    // resolved by the same path of completion preview
+    let snippet: Snippet = {
+      filepath,
+      lnum: block.start,
+      body: format == 'snipmate' ? convertBody(block.body) : block.body,
+      prefix: block.name,
+      description: block.description,
+      triggerKind: TriggerKind.WordBoundary,
+      filetype,
+      provider: format == 'json' ? 'snippets' : format
+    }
+    if (format == 'ultisnips') {
+      let { snippets } = this.parser.parseUltisnipsText(filetype, filepath, content)
+      let parsed = snippets.find(o => o.lnum == block.start)
+      if (parsed) {
+        snippet = Object.assign({}, parsed, { provider: 'ultisnips' })
+        lines.push(...this.getUltiSnipsDetails(parsed, block))
+      }
+    } else {
+      lines.push(...this.getDetails(format, block))
+    }
+    let resolved: string
+    try {
+      resolved = await this.manager.resolveSnippet(snippet)
+    } catch (e) {
+      resolved = snippet.body
+    }
+    return {
+      contents: {
+        kind: 'markdown',
+        value: markdownBlock(resolved, filetype) + '\n\n' + lines.join('\n\n')
+      },
+      range: Range.create(block.start, 0, block.start, content.split(/\r?\n/)[block.start].length)
+    }
+  }
+
+  private getDetails(format: SnippetFileFormat, block: SnippetBlock): string[] {
+    let prefixes = format == 'json' ? block.prefixes : [block.name]
+    let res = [`**Trigger**: ${prefixes.map(s => '`' + s + '`').join(', ')} (${triggerKindNames[TriggerKind.WordBoundary]})`]
+    if (block.description) res.push(`**Description**: ${block.description}`)
+    return res
+  }
+
+  private getUltiSnipsDetails(snippet: Snippet, block: SnippetBlock): string[] {
+    let trigger = snippet.originRegex ? `\`${snippet.originRegex}\` (regex)` : `\`${snippet.prefix}\``
+    let res = [`**Trigger**: ${trigger} (${triggerKindNames[snippet.triggerKind]}${snippet.autoTrigger ? ', auto trigger' : ''})`]
+    if (snippet.description) res.push(`**Description**: ${snippet.description}`)
+    if (block.options) res.push(`**Options**: \`${block.options}\``)
+    res.push(`**Priority**: ${snippet.priority ?? 0}`)
+    if (snippet.context) res.push(`**Context**: \`${snippet.context}\``)
+    if (snippet.syntax) res.push(`**Syntax**: ${snippet.syntax.map(s => '`' + s + '`').join(', ')}`)
+    for (let [key, name] of Object.entries(actionNames)) {
+      let code = snippet.actions ? snippet.actions[key] : undefined
+      if (code) res.push(`**${name}**: \`${code}\``)
+    }
+    return res
+  }
+}
@@ -1,20 +1,25 @@
 import { commands, Disposable, Document, events, ExtensionContext, languages, listManager, Position, Range, snippetManager, Uri, window, workspace } from 'coc.nvim'
 import merge from 'merge'
 import path from 'path'
-import { registerLanguageProvider } from './languages'
+import { ParseCache } from './cache'
+import { SnippetsConverter } from './converter'
+import { expandSnippet, getTriggerSnippets, listSnippets, resolveSnippet, SnippetTarget } from './api'
+import { getAutoTriggerConflicts, recordAutoTriggerConflict, resolveAutoTrigger, ResolveRule, showAutoTriggerConflicts } from './autoTrigger'
+import { getConflicts, getDefinitions, showConflicts, showDefinitions, SnippetDefinitionProvider } from './definitions'
+import { ExternalProvider } from './externalProvider'
+import { getSnippetsSelector, registerLanguageProvider } from './languages'
+import CandidatesList from './list/candidates'
 import SnippetsList from './list/snippet'
 import { MassCodeProvider } from './massCodeProvider'
 import { ProviderManager } from './provider'
 import { SnipmateProvider } from './snipmateProvider'
+import { FileTemplates } from './templates'
 import { TextmateProvider } from './textmateProvider'
-import { UltiSnipsConfig } from './types'
+import { ExternalSnippetsProvider, SnippetsAPI, UltiSnipsConfig } from './types'
 import { getSnippetsDirectory, UltiSnippetsProvider } from './ultisnipsProvider'
+import { initUsage, recordUsage, sortByUsage } from './usage'
 import { addFiletypes, getAdditionalFiletype, getSnippetFiletype, insertSnippetEdit, sameFile, setLastSnippet, waitDocument } from './util'
 
-interface API {
-  expandable: () => Promise<boolean>
-}
-
 export function checkBufferVariable(doc: Document): void {
   let filetypes = doc.getVar('snippets_filetypes', undefined) as string[]
   if (!Array.isArray(filetypes)) filetypes = undefined
@@ -86,16 +91,17 @@ async function snippetSelect(): Promise<void> {
   await window.moveTo(range.start)
 }
 
-export async function activate(context: ExtensionContext): Promise<API> {
+export async function activate(context: ExtensionContext): Promise<SnippetsAPI> {
   let { subscriptions } = context
   const { nvim } = workspace
   const configuration = workspace.getConfiguration('snippets', null)
   const filetypeExtends = configuration.get<any>('extends', {})
   const trace = configuration.get<string>('trace', 'error')
-  // let mru = workspace.createMru('snippets-mru')
+  initUsage(context.globalState)
   const channel = window.createOutputChannel('snippets')
   subscriptions.push(channel)
   const manager = new ProviderManager(channel, subscriptions, configuration)
+  const candidatesList = new CandidatesList(workspace.nvim, manager)
   events.on('ready' as any, () => {
     enableSnippetsFiletype(subscriptions)
   }, null, subscriptions)
@@ -118,17 +124,33 @@ export async function activate(context: ExtensionContext): Promise<API> {
     if (item && item['data'] && item['data']['snip']) {
       let snip = item['data']['snip']
       setLastSnippet(snip.filepath, snip.lnum)
+      recordUsage(snip.filepath, snip.lnum, snip.prefix)
     }
   }, null, context.subscriptions)
 
   let excludes = configuration.get<string[]>('excludePatterns', [])
   if (!Array.isArray(excludes)) excludes = []
   excludes = excludes.map(p => workspace.expand(p))
+  const watch = configuration.get<boolean>('watchFiles', true)
+  const projectSnippets = configuration.get<boolean>('loadProjectSnippets', false)
+  const projectPriority = configuration.get<number>('projectSnippetsPriority', 10)
+  const autoTriggerPrefixes = configuration.get<{ [filetype: string]: string[] }>('autoTriggerPrefixes', {})
+  const parseCache = new ParseCache(context.storagePath)
+  subscriptions.push(parseCache)
+  const cache = configuration.get<boolean>('parseCache', true) ? parseCache : undefined
+  subscriptions.push(commands.registerCommand('snippets.clearCache', () => {
+    parseCache.clear()
+    void window.showInformationMessage('Cache of parsed snippet files cleared.')
+  }))
   if (configuration.get<boolean>('ultisnips.enable', true)) {
     const snippetsDir = await getSnippetsDirectory(configuration)
     let config = configuration.get<any>('ultisnips', {})
     let c = merge.recursive(true, config, {
       excludes,
+      watch,
+      projectSnippets,
+      projectPriority,
+      autoTriggerPrefixes,
       pythonPrompt: configuration.get<boolean>('ultisnips.pythonPrompt', true),
       extends: merge.recursive(true, {}, filetypeExtends)
     } as UltiSnipsConfig)
@@ -138,7 +160,7 @@ export async function activate(context: ExtensionContext): Promise<API> {
       && c.directories.findIndex(dir => sameFile(dir, snippetsDir)) == -1) {
       c.directories.push(snippetsDir)
     }
-    let provider = new UltiSnippetsProvider(channel, c, context)
+    let provider = new UltiSnippetsProvider(channel, c, context, cache)
     manager.regist(provider, 'ultisnips')
 
     subscriptions.push(commands.registerCommand('snippets.editSnippets', provider.editSnippets.bind(provider)))
@@ -151,9 +173,11 @@ export async function activate(context: ExtensionContext): Promise<API> {
       projectSnippets: configuration.get<boolean>('loadVSCodeProjectSnippets', true),
       extends: merge.recursive(true, {}, filetypeExtends),
       trace: trace == 'verbose',
-      excludes
+      excludes,
+      watch,
+      autoTriggerPrefixes
     }
-    let provider = new TextmateProvider(channel, config, subscriptions)
+    let provider = new TextmateProvider(channel, config, subscriptions, cache)
     manager.regist(provider, 'snippets')
   }
 
@@ -162,9 +186,13 @@ export async function activate(context: ExtensionContext): Promise<API> {
       author: configuration.get<string>('snipmate.author', ''),
       extends: merge.recursive(true, {}, filetypeExtends),
       trace: configuration.get<boolean>('snipmate.trace', false),
-      excludes
+      excludes,
+      watch,
+      projectSnippets,
+      projectPriority,
+      autoTriggerPrefixes
     }
-    let provider = new SnipmateProvider(channel, config, subscriptions)
+    let provider = new SnipmateProvider(channel, config, subscriptions, cache)
     manager.regist(provider, 'snipmate')
   }
 
@@ -174,14 +202,23 @@ export async function activate(context: ExtensionContext): Promise<API> {
       port: configuration.get<number>('massCode.port', 3033),
       extends: merge.recursive(true, {}, filetypeExtends),
       trace: configuration.get<boolean>('massCode.trace', false),
+      refreshInterval: configuration.get<number>('massCode.refreshInterval', 60),
+      folderFiletypes: configuration.get<Record<string, string | string[]>>('massCode.folderFiletypes', {}),
+      autoTriggerPrefixes,
       excludes
     }
-    let provider = new MassCodeProvider(channel, config)
+    let provider = new MassCodeProvider(channel, config, subscriptions)
     manager.regist(provider, 'massCode')
     subscriptions.push(commands.registerCommand('snippets.editMassCodeSnippets', provider.createSnippet.bind(provider)))
+    subscriptions.push(commands.registerCommand('snippets.updateMassCodeSnippet', provider.updateSnippet.bind(provider)))
+    subscriptions.push(commands.registerCommand('snippets.deleteMassCodeSnippet', provider.deleteSnippet.bind(provider)))
+    subscriptions.push(commands.registerCommand('snippets.refreshMassCodeSnippets', async () => {
+      if (await provider.refresh(true)) window.showInformationMessage('massCode snippets reloaded')
+    }))
   }
 
   if (configuration.get<boolean>('autoTrigger', true)) {
+    const autoTriggerPicker = configuration.get<boolean>('autoTriggerPicker', false)
     events.on('TextInsert', async (bufnr, info) => {
       let changedtick = info.changedtick
       let doc = workspace.getDocument(bufnr)
@@ -193,12 +230,21 @@ export async function activate(context: ExtensionContext): Promise<API> {
       let edits = await manager.getTriggerSnippets(bufnr, true, position)
       if (doc.changedtick != changedtick) return
       if (edits.length == 0) return
-      if (edits.length > 1) {
-        channel.appendLine(`Multiple snippets found on auto trigger: ${JSON.stringify(edits, null, 2)}`)
-        window.showWarningMessage('Multiple snippets found on auto trigger')
-        await commands.executeCommand('workspace.showOutput', 'snippets')
+      if (edits.length == 1) {
+        await insertSnippetEdit(edits[0])
+        return
       }
-      await insertSnippetEdit(edits[0])
+      let resolved = resolveAutoTrigger(edits)
+      let candidates = sortByUsage(resolved.edits, e => [e.location, e.lnum, e.prefix])
+      let conflict = { time: new Date(), filepath: Uri.parse(doc.uri).fsPath, line: position.line, candidates: edits }
+      if (candidates.length > 1 && autoTriggerPicker) {
+        recordAutoTriggerConflict(Object.assign(conflict, { rule: 'picker' as const }))
+        await candidatesList.pick(bufnr, candidates)
+        return
+      }
+      let rule: ResolveRule = resolved.rule ?? (candidates[0] !== resolved.edits[0] ? 'usage' : 'first')
+      recordAutoTriggerConflict(Object.assign(conflict, { chosen: candidates[0], rule }))
+      await insertSnippetEdit(candidates[0])
     }, null, subscriptions)
   }
 
@@ -210,7 +256,11 @@ export async function activate(context: ExtensionContext): Promise<API> {
     })
   }
 
-  if (manager.hasProvider) {
+  let completionRegistered = false
+  // registered on first provider, could be registered by other extension later
+  function registerCompletionProvider(): void {
+    if (completionRegistered) return
+    completionRegistered = true
     let disposable = languages.registerCompletionItemProvider(
       'snippets',
       configuration.get('shortcut', 'S'),
@@ -220,23 +270,29 @@ export async function activate(context: ExtensionContext): Promise<API> {
       configuration.get<number>('priority', 90))
     subscriptions.push(disposable)
   }
+  if (manager.hasProvider) registerCompletionProvider()
 
   async function fallback(): Promise<void> {
     await nvim.call('coc#start', [{ source: 'snippets' }])
   }
 
+  /**
+   * Expand snippet at cursor, true is returned when snippet expanded or
+   * candidates list would be shown for multiple snippets.
+   */
   async function doExpand(bufnr: number): Promise<boolean> {
     let edits = await manager.getTriggerSnippets(bufnr)
     if (edits.length == 0) return false
+    edits = sortByUsage(edits, e => [e.location, e.lnum, e.prefix])
     if (edits.length == 1) {
       await insertSnippetEdit(edits[0])
     } else {
-      setTimeout(async () => {
-        let idx = await window.showMenuPicker(edits.map(e => e.description || e.prefix), { title: 'choose snippet' })
-        if (idx == -1) return
-        await insertSnippetEdit(edits[idx])
+      // list can't be opened before the sync keymap request returns
+      setTimeout(() => {
+        candidatesList.pick(bufnr, edits).catch(e => {
+          channel.appendLine(`[Error ${(new Date()).toLocaleTimeString()}] Error on pick snippet candidates: ${e.stack}`)
+        })
       }, 10)
-      return true
     }
     return true
   }
@@ -274,6 +330,90 @@ export async function activate(context: ExtensionContext): Promise<API> {
     await workspace.jumpTo(uri, null, configuration.get<string>('editSnippetsCommand'))
   }))
 
+  subscriptions.push(commands.registerCommand('snippets.findDefinitions', async (prefix?: string) => {
+    let buf = await nvim.buffer
+    let doc = workspace.getDocument(buf.id)
+    if (!doc) {
+      window.showErrorMessage('Document not found')
+      return
+    }
+    if (!prefix) prefix = await nvim.eval('expand("<cword>")') as string
+    if (!prefix) prefix = await window.requestInput('Snippet prefix')
+    if (!prefix) return
+    let definitions = getDefinitions(manager, getSnippetFiletype(doc), prefix, Uri.parse(doc.uri).fsPath)
+    if (!definitions.length) {
+      window.showWarningMessage(`No snippet definition found for "${prefix}"`)
+      return
+    }
+    await showDefinitions(definitions, prefix)
+  }))
+  subscriptions.push(commands.registerCommand('snippets.showConflicts', async () => {
+    let buf = await nvim.buffer
+    let doc = workspace.getDocument(buf.id)
+    if (!doc) {
+      window.showErrorMessage('Document not found')
+      return
+    }
+    let filetype = getSnippetFiletype(doc)
+    let conflicts = getConflicts(manager, filetype, Uri.parse(doc.uri).fsPath)
+    if (!conflicts.length) {
+      window.showInformationMessage(`No conflict of snippets found for ${filetype}`)
+      return
+    }
+    await showConflicts(conflicts, filetype)
+  }))
+  subscriptions.push(commands.registerCommand('snippets.showAutoTriggerConflicts', async () => {
+    let conflicts = getAutoTriggerConflicts()
+    if (!conflicts.length) {
+      window.showInformationMessage('No conflict of auto trigger snippets recorded')
+      return
+    }
+    await showAutoTriggerConflicts(conflicts)
+  }))
+  subscriptions.push(languages.registerDefinitionProvider(getSnippetsSelector(configuration), new SnippetDefinitionProvider(manager)))
+
+  const converter = new SnippetsConverter(channel, configuration)
+  subscriptions.push(commands.registerCommand('snippets.convert', async (format?: string, target?: string) => {
+    let buf = await nvim.buffer
+    let doc = workspace.getDocument(buf.id)
+    if (!doc) {
+      window.showErrorMessage('Document not found')
+      return
+    }
+    let filetype = getSnippetFiletype(doc)
+    let snippets = manager.getSnippets(filetype, Uri.parse(doc.uri).fsPath)
+    if (!snippets.length) {
+      window.showWarningMessage(`No snippets found for ${filetype}`)
+      return
+    }
+    let files = Array.from(new Set(snippets.map(o => o.filepath)))
+    let items = [`All snippets of ${filetype}`, ...files]
+    let idx = await window.showMenuPicker(items, { title: 'Convert snippets from' })
+    if (idx == -1) return
+    if (idx > 0) snippets = snippets.filter(o => o.filepath == files[idx - 1])
+    await converter.convert(snippets, filetype, format, target)
+  }))
+
+  const templates = new FileTemplates(manager, channel, configuration)
+  subscriptions.push(commands.registerCommand('snippets.insertTemplate', async () => {
+    let buf = await nvim.buffer
+    let doc = workspace.getDocument(buf.id)
+    if (!doc) {
+      window.showErrorMessage('Document not found')
+      return
+    }
+    await templates.insert(doc)
+  }))
+  if (configuration.get<boolean>('autoInsertTemplate', true)) {
+    workspace.onDidOpenTextDocument(async e => {
+      let doc = workspace.getDocument(e.bufnr)
+      if (!doc) return
+      await templates.onNewDocument(doc).catch(e => {
+        channel.appendLine(`[Error ${(new Date()).toLocaleTimeString()}] Error on insert template: ${e.stack}`)
+      })
+    }, null, subscriptions)
+  }
+
   const expand = async () => {
     let bufnr = await nvim.eval('bufnr("%")') as number
     let expanded = await doExpand(bufnr)
@@ -299,14 +439,40 @@ export async function activate(context: ExtensionContext): Promise<API> {
   subscriptions.push(workspace.registerKeymap(['i'], 'snippets-expand-jump-async', expandJump, { silent: true, sync: false, cancel: true }))
   subscriptions.push(workspace.registerKeymap(['v'], 'snippets-select', snippetSelect, { silent: true, sync: false, cancel: true }))
 
-  registerLanguageProvider(subscriptions, channel, configuration)
-  subscriptions.push(listManager.registerList(new SnippetsList(workspace.nvim, manager)))
+  subscriptions.push(commands.registerCommand('snippets.listSnippets', (filetype?: string) => listSnippets(manager, filetype)))
+  subscriptions.push(commands.registerCommand('snippets.getTriggerSnippets', (bufnr?: number, position?: Position) => getTriggerSnippets(manager, bufnr, position)))
+  subscriptions.push(commands.registerCommand('snippets.expandSnippet', (target: SnippetTarget, range?: Range) => expandSnippet(manager, target, range)))
+  subscriptions.push(commands.registerCommand('snippets.resolveSnippet', (target: SnippetTarget) => resolveSnippet(manager, target)))
+
+  registerLanguageProvider(subscriptions, channel, configuration, manager)
+  subscriptions.push(listManager.registerList(new SnippetsList(workspace.nvim, manager, converter)))
+  subscriptions.push(listManager.registerList(candidatesList))
 
   return {
     expandable: async (): Promise<boolean> => {
       let bufnr = await nvim.eval('bufnr("%")') as number
       let edits = await manager.getTriggerSnippets(bufnr)
       return edits && edits.length > 0
+    },
+    listSnippets: filetype => listSnippets(manager, filetype),
+    getTriggerSnippets: (bufnr, position) => getTriggerSnippets(manager, bufnr, position),
+    expandSnippet: (target, range) => expandSnippet(manager, target, range),
+    resolveSnippet: target => resolveSnippet(manager, target),
+    registerProvider: (name: string, provider: ExternalSnippetsProvider): Disposable => {
+      if (manager.getProvider(name)) throw new Error(`Snippets provider "${name}" already registered`)
+      let config = { extends: merge.recursive(true, {}, filetypeExtends), excludes, trace: false }
+      let external = new ExternalProvider(name, provider, config, channel)
+      let disposable = manager.regist(external, name)
+      registerCompletionProvider()
+      manager.initProvider(name, external).catch(e => {
+        channel.appendLine(`[Error ${(new Date()).toLocaleTimeString()}] Error on init provider "${name}": ${e.stack}`)
+      })
+      let res = Disposable.create(() => {
+        disposable.dispose()
+        external.dispose()
+      })
+      subscriptions.push(res)
+      return res
     }
   }
 }
@@ -0,0 +1,101 @@
+import { Document, Position, Uri, window, workspace } from 'coc.nvim'
+import vm from 'vm'
+
+// prefix of context evaluated by javascript, like `context "js:snip.line == 0"`
+export const jsContextPrefix = 'js:'
+// max milliseconds for evaluate code
+const evalTimeout = 500
+const jsCodeRegex = /(?<!\\)`!js\s([\s\S]*?)(?<!\\)`/g
+
+/**
+ * Like snip of python code in UltiSnips, line and column are 0 based.
+ */
+export interface JsSnip {
+  buffer: ReadonlyArray<string>
+  line: number
+  column: number
+  filepath: string
+  filetype: string
+  before: string
+  after: string
+  visual_text: string
+  // groups of regex trigger matched before cursor
+  match: string[] | null
+  // result of interpolation when assigned
+  rv?: any
+}
+
+export function isJsContext(context: string | undefined): boolean {
+  return typeof context === 'string' && context.startsWith(jsContextPrefix)
+}
+
+export function hasJsCode(body: string): boolean {
+  return body.includes('`!js')
+}
+
+export function createJsSnip(doc: Document, position: Position, visualText: string, regex?: RegExp): JsSnip {
+  let line = doc.getline(position.line)
+  let before = line.slice(0, position.character)
+  let ms = regex ? before.match(regex) : null
+  return {
+    buffer: doc.textDocument.lines,
+    line: position.line,
+    column: position.character,
+    filepath: Uri.parse(doc.uri).fsPath,
+    filetype: doc.filetype,
+    before,
+    after: line.slice(position.character),
+    visual_text: visualText,
+    match: ms ? Array.from(ms) : null
+  }
+}
+
+/**
+ * Snip of current buffer, position is cursor position when not provided.
+ */
+export async function getJsSnip(position?: Position, regex?: RegExp): Promise<JsSnip | undefined> {
+  let { nvim } = workspace
+  let bufnr = await nvim.call('bufnr', ['%']) as number
+  let doc = workspace.getDocument(bufnr)
+  if (!doc) return undefined
+  if (!position) position = await window.getCursorPosition()
+  let visualText = await nvim.getVar('coc_selected_text') as string
+  return createJsSnip(doc, position, visualText ?? '', regex)
+}
+
+/**
+ * Evaluate code in a new vm context, the value of last statement is returned
+ * and `snip.rv` assigned by code is copied back. Only a JSON copy of snip is
+ * available to code, so objects of extension can't be reached through
+ * constructor, the vm is not a security boundary though.
+ */
+export function evalJsCode(code: string, snip: JsSnip): any {
+  let context = vm.createContext({})
+  vm.runInContext(`var snip = JSON.parse(${JSON.stringify(JSON.stringify(snip))}); var match = snip.match`, context)
+  let res = vm.runInContext(code, context, { timeout: evalTimeout, filename: 'snippet.js' })
+  let { rv } = context.snip
+  if (rv !== undefined) snip.rv = rv
+  return res
+}
+
+export function checkJsContext(context: string, snip: JsSnip): boolean {
+  return !!evalJsCode(context.slice(jsContextPrefix.length).trim(), snip)
+}
+
+/**
+ * Replace `!js` interpolations of UltiSnips body by evaluated results,
+ * interpolation with error is replaced by empty string.
+ */
+export function resolveJsCode(body: string, snip: JsSnip, onError?: (err: Error) => void): string {
+  return body.replace(jsCodeRegex, (_, code: string) => {
+    try {
+      let s: JsSnip = Object.assign({}, snip, { rv: undefined })
+      let res = evalJsCode(code, s)
+      let value = s.rv !== undefined ? s.rv : res
+      return value == null ? '' : String(value).replace(/([$`\\}])/g, '\\$1')
+    } catch (e: any) {
+      if (onError) onError(e)
+      return ''
+    }
+  })
+}
@@ -0,0 +1,130 @@
+import { Diagnostic, DiagnosticSeverity, Range } from 'coc.nvim'
+import { Node, parseTree, ParseError, printParseErrorCode } from 'jsonc-parser'
+import { createPositionAt } from './snippetDocument'
+
+const codesMap: Map<number, string> = new Map()
+codesMap.set(11, 'json parse error, $1.')
+codesMap.set(12, 'snippet should be an object.')
+codesMap.set(13, 'snippet "$1" required.')
+codesMap.set(14, '"$1" should be $2.')
+codesMap.set(15, 'unknown language "$1" of scope.')
+codesMap.set(16, 'duplicated prefix "$1" in $2.')
+codesMap.set(17, 'unknown variable "$1".')
+
+// variables supported by coc.nvim
+const knownVariables = [
+  'TM_SELECTED_TEXT', 'TM_CURRENT_LINE', 'TM_CURRENT_WORD', 'TM_LINE_INDEX', 'TM_LINE_NUMBER',
+  'TM_FILENAME', 'TM_FILENAME_BASE', 'TM_DIRECTORY', 'TM_FILEPATH', 'RELATIVE_FILEPATH',
+  'CLIPBOARD', 'WORKSPACE_NAME', 'WORKSPACE_FOLDER', 'CURSOR_INDEX', 'CURSOR_NUMBER',
+  'CURRENT_YEAR', 'CURRENT_YEAR_SHORT', 'CURRENT_MONTH', 'CURRENT_MONTH_NAME', 'CURRENT_MONTH_NAME_SHORT',
+  'CURRENT_DATE', 'CURRENT_DAY_NAME', 'CURRENT_DAY_NAME_SHORT', 'CURRENT_HOUR', 'CURRENT_MINUTE',
+  'CURRENT_SECOND', 'CURRENT_SECONDS_UNIX', 'CURRENT_TIMEZONE_OFFSET', 'RANDOM', 'RANDOM_HEX', 'UUID',
+  'BLOCK_COMMENT_START', 'BLOCK_COMMENT_END', 'LINE_COMMENT', 'VISUAL', 'YANK'
+]
+
+// VSCode language ids that differ from vim filetypes
+export const vscodeLanguageIds = [
+  'javascriptreact', 'typescriptreact', 'shellscript', 'plaintext', 'jsonc', 'csharp', 'objective-c',
+  'objective-cpp', 'fsharp', 'powershell', 'bat', 'dockerfile', 'restructuredtext', 'latex'
+]
+
+const stringType = 'string or array of string'
+
+function isStringOrArray(node: Node): boolean {
+  if (node.type == 'string') return true
+  return node.type == 'array' && node.children.every(o => o.type == 'string')
+}
+
+function stringNodes(node: Node): Node[] {
+  if (node.type == 'string') return [node]
+  if (node.type == 'array') return node.children.filter(o => o.type == 'string')
+  return []
+}
+
+/**
+ * Validate snippets file of VSCode format, languages is used for check scope
+ * of global snippets file.
+ */
+export function getJsonDiagnostics(content: string, isGlobal: boolean, languages?: ReadonlySet<string>): Diagnostic[] {
+  let diagnostics: Diagnostic[] = []
+  let positionAt = createPositionAt(content)
+  let report = (offset: number, length: number, code: number, severity: DiagnosticSeverity, ...args: string[]) => {
+    let message = args.reduce((msg, arg, i) => msg.replace(`$${i + 1}`, arg), codesMap.get(code))
+    let range = Range.create(positionAt(offset), positionAt(offset + length))
+    diagnostics.push(Diagnostic.create(range, message, severity, code))
+  }
+  let errors: ParseError[] = []
+  let root = parseTree(content, errors, { allowTrailingComma: true })
+  for (let err of errors) {
+    report(err.offset, err.length, 11, DiagnosticSeverity.Error, printParseErrorCode(err.error))
+  }
+  if (!root || root.type != 'object') return diagnostics
+  // prefixes by scope
+  let scopes: Map<string, Set<string>> = new Map()
+  for (let property of root.children) {
+    let [keyNode, valueNode] = property.children
+    if (!valueNode) continue
+    if (valueNode.type != 'object') {
+      report(keyNode.offset, keyNode.length, 12, DiagnosticSeverity.Error)
+      continue
+    }
+    let props: Map<string, Node> = new Map()
+    for (let child of valueNode.children) {
+      if (child.children[1]) props.set(child.children[0].value, child.children[1])
+    }
+    // prefix is optional for file template
+    let isFileTemplate = props.get('isFileTemplate')?.value === true
+    for (let key of isFileTemplate ? ['body'] : ['prefix', 'body']) {
+      if (!props.has(key)) report(keyNode.offset, keyNode.length, 13, DiagnosticSeverity.Error, key)
+    }
+    for (let key of ['prefix', 'body', 'description', 'syntax']) {
+      let node = props.get(key)
+      if (node && !isStringOrArray(node)) report(node.offset, node.length, 14, DiagnosticSeverity.Error, key, stringType)
+    }
+    for (let key of ['autotrigger', 'isFileTemplate']) {
+      let node = props.get(key)
+      if (node && node.type != 'boolean') report(node.offset, node.length, 14, DiagnosticSeverity.Error, key, 'boolean')
+    }
+    let scopeNode = props.get('scope')
+    let scopeIds = ['']
+    if (scopeNode && scopeNode.type != 'string') {
+      report(scopeNode.offset, scopeNode.length, 14, DiagnosticSeverity.Error, 'scope', 'string')
+    } else if (scopeNode && isGlobal) {
+      scopeIds = (scopeNode.value as string).split(',').map(s => s.trim()).filter(s => s.length > 0)
+      for (let id of scopeIds) {
+        if (languages && !languages.has(id)) report(scopeNode.offset, scopeNode.length, 15, DiagnosticSeverity.Warning, id)
+      }
+    }
+    let prefixNode = props.get('prefix')
+    if (prefixNode && isStringOrArray(prefixNode)) {
+      for (let node of stringNodes(prefixNode)) {
+        for (let id of scopeIds) {
+          let prefixes = scopes.get(id) ?? new Set()
+          if (prefixes.has(node.value)) {
+            report(node.offset, node.length, 16, DiagnosticSeverity.Warning, node.value, id ? `scope "${id}"` : 'file')
+          }
+          prefixes.add(node.value)
+          scopes.set(id, prefixes)
+        }
+      }
+    }
+    let bodyNode = props.get('body')
+    if (bodyNode) {
+      for (let node of stringNodes(bodyNode)) {
+        // raw text of json string, escaped backslash is doubled
+        let text = content.slice(node.offset, node.offset + node.length)
+        let re = /\$\{?([A-Za-z_]\w*)/g
+        let ms: RegExpExecArray | null
+        while ((ms = re.exec(text)) !== null) {
+          let slashes = text.slice(0, ms.index).match(/\\*$/)[0].length
+          if ((slashes / 2) % 2 == 1) continue
+          if (!knownVariables.includes(ms[1])) {
+            let start = node.offset + ms.index + ms[0].length - ms[1].length
+            report(start, ms[1].length, 17, DiagnosticSeverity.Warning, ms[1])
+          }
+        }
+      }
+    }
+  }
+  return diagnostics
+}
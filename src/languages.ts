@@ -1,18 +1,139 @@
-import { CancellationToken, CompleteOption, CompletionContext, CompletionItem, CompletionItemKind, CompletionItemProvider, Diagnostic, DiagnosticCollection, DiagnosticSeverity, Disposable, InsertTextFormat, languages, OutputChannel, Position, ProviderResult, Range, snippetManager, TextDocument, workspace, WorkspaceConfiguration } from 'coc.nvim'
-import { convertRegex, headTail, markdownBlock } from './util'
+import { CancellationToken, CompleteOption, CompletionContext, CompletionItem, CompletionItemKind, CompletionItemProvider, Diagnostic, DiagnosticCollection, DiagnosticSeverity, Disposable, DocumentSelector, InsertTextFormat, languages, OutputChannel, Position, ProviderResult, Range, snippetManager, TextDocument, Uri, workspace, WorkspaceConfiguration } from 'coc.nvim'
+import path from 'path'
+import { SnippetHoverProvider } from './hoverProvider'
+import { getJsonDiagnostics, vscodeLanguageIds } from './jsonDiagnostics'
+import { SnippetOutlineProvider } from './outlineProvider'
+import { ProviderManager } from './provider'
+import { isUltiSnipsFile } from './snippetDocument'
+import { createTriggerRegex, headTail, markdownBlock, sameFile } from './util'
 
 const codesMap: Map<number, string> = new Map()
 codesMap.set(1, 'invalid snippet line, trigger required.')
 codesMap.set(2, 'invalid snippet option, option "$1" not supported.')
 codesMap.set(3, 'invalid python expression, $1')
 codesMap.set(4, 'invalid code interpolation, #! not supported.')
+codesMap.set(5, 'snippet not closed, "endsnippet" required.')
+codesMap.set(6, 'unexpected "$1" outside of block.')
+codesMap.set(7, 'global block not closed, "endglobal" required.')
+codesMap.set(8, 'invalid priority, integer required.')
+codesMap.set(9, 'invalid extends, $1')
+codesMap.set(10, '"$1" should be followed by snippet definition.')
 
 const validOptions = ['b', 'i', 'w', 'r', 'e', 'A', 't', 'm', 's']
+const snippetModifiers = ['context', 'syntax', 'pre_expand', 'post_expand', 'post_jump']
+
+function createDiagnostic(lnum: number, start: number, end: number, code: number, arg?: string): Diagnostic {
+  let message = codesMap.get(code)
+  if (arg != null) message = message.replace('$1', arg)
+  return Diagnostic.create(Range.create(lnum, start, lnum, end), message, DiagnosticSeverity.Error, code)
+}
+
+/**
+ * Validate content of snippets file, block state is tracked the same way as
+ * UltiSnipsParser.
+ */
+export function getDiagnostics(uri: string, content: string): Diagnostic[] {
+  let lines = content.split('\n')
+  let diagnostics: Diagnostic[] = []
+  let structural = isUltiSnipsFile(uri, lines)
+  // block and line number of block start
+  let block: string | undefined
+  let blockStart = 0
+  // context and actions waiting for snippet definition
+  let modifiers: [string, number][] = []
+  let checkModifiers = () => {
+    for (let [name, lnum] of modifiers) {
+      diagnostics.push(createDiagnostic(lnum, 0, name.length, 10, name))
+    }
+    modifiers = []
+  }
+  for (let curr = 0; curr < lines.length; curr++) {
+    let line = lines[curr]
+    if (!block && (line.startsWith('#') || line.trim().length == 0)) continue
+    let [head, tail] = headTail(line)
+    if (block) {
+      if ((head == 'endsnippet' && block == 'snippet') || (head == 'endglobal' && block == 'global')) {
+        block = undefined
+        continue
+      }
+    } else if (structural) {
+      if (head != 'snippet' && !snippetModifiers.includes(head)) checkModifiers()
+      if (head == 'endsnippet' || head == 'endglobal') {
+        diagnostics.push(createDiagnostic(curr, 0, head.length, 6, head))
+      } else if (head == 'priority' && !/^-?\d+$/.test(tail.trim())) {
+        diagnostics.push(createDiagnostic(curr, 0, line.length, 8))
+      } else if (head == 'extends') {
+        let fts = tail.trim()
+        if (!fts.length) {
+          diagnostics.push(createDiagnostic(curr, 0, line.length, 9, 'filetype required.'))
+        } else if (fts.split(/,\s+/).some(ft => !/^[\w.-]+$/.test(ft))) {
+          diagnostics.push(createDiagnostic(curr, 0, line.length, 9, 'filetypes should be separated by ", ".'))
+        }
+      } else if (snippetModifiers.includes(head)) {
+        modifiers.push([head, curr])
+      } else if (head == 'global') {
+        block = 'global'
+        blockStart = curr
+        continue
+      }
+    }
+    if (!block && /^snippet\s*$/.test(line)) {
+      modifiers = []
+      diagnostics.push(createDiagnostic(curr, 0, line.length, 1))
+      continue
+    }
+    if (!block && line.startsWith('snippet ')) {
+      modifiers = []
+      if (structural) {
+        block = 'snippet'
+        blockStart = curr
+      }
+      let content = headTail(line)[1]
+      let ms = content.match(/^(.+?)(?:\s+(?:"(.*?)")?(?:\s+"(.*?)")?(?:\s+(\w+))?)?$/)
+      let prefix = ms[1]
+      if (prefix.length > 2 && prefix[0] == prefix[prefix.length - 1] && !/\w/.test(prefix[0])) {
+        prefix = prefix.slice(1, prefix.length - 1)
+      }
+      let option = ms[4] || ''
+      let isExpression = option.indexOf('r') !== -1
+      let startCharacter = line.length - option.length
+      for (let ch of option) {
+        if (validOptions.indexOf(ch) == -1) {
+          diagnostics.push(createDiagnostic(curr, startCharacter, startCharacter + 1, 2, ch))
+        }
+        startCharacter = startCharacter + 1
+      }
+      if (isExpression) {
+        try {
+          createTriggerRegex(prefix)
+        } catch (e: any) {
+          // unsupported python constructs are matched by python
+          if (e instanceof SyntaxError) {
+            let start = line.indexOf(prefix)
+            diagnostics.push(createDiagnostic(curr, start, start + prefix.length, 3, e.message))
+          }
+        }
+      }
+    } else {
+      let idx = line.indexOf('`#!')
+      if (idx !== -1) {
+        diagnostics.push(createDiagnostic(curr, idx, idx + 3, 4))
+      }
+    }
+  }
+  if (block) {
+    let line = lines[blockStart]
+    diagnostics.push(createDiagnostic(blockStart, 0, line.length, block == 'snippet' ? 5 : 7))
+  }
+  checkModifiers()
+  return diagnostics
+}
 
 export class LanguageProvider implements CompletionItemProvider {
   public disposables: Disposable[] = []
   private collection: DiagnosticCollection
-  constructor(private channel: OutputChannel, private trace = 'error') {
+  private languages: Set<string> | undefined
+  constructor(private channel: OutputChannel, private trace = 'error', private snippetsRoots: string[] = []) {
     this.collection = languages.createDiagnosticCollection('snippets')
 
     for (let doc of workspace.documents) {
@@ -40,56 +161,29 @@ export class LanguageProvider implements CompletionItemProvider {
   }
 
   private shouldValidate(uri: string): boolean {
-    return uri.endsWith('.snippets')
+    if (uri.endsWith('.snippets') || uri.endsWith('.code-snippets')) return true
+    if (!uri.endsWith('.json')) return false
+    let dir = path.dirname(Uri.parse(uri).fsPath)
+    return path.basename(dir) == 'snippets' || this.snippetsRoots.some(root => sameFile(root, dir))
+  }
+
+  private async getLanguages(): Promise<Set<string>> {
+    if (!this.languages) {
+      let filetypes = await workspace.nvim.call('getcompletion', ['', 'filetype']) as string[]
+      this.languages = new Set([...filetypes, ...vscodeLanguageIds, 'all'])
+    }
+    for (let id of workspace.languageIds) {
+      this.languages.add(id)
+    }
+    return this.languages
   }
 
   private async validate(uri: string, content: string): Promise<void> {
-    let lines = content.split('\n')
-    let diagnostics: Diagnostic[] = []
-    let curr = 0
-    for (let line of lines) {
-      if (/^snippet\s*$/.test(line)) {
-        let range = Range.create(curr, 0, curr, line.length)
-        diagnostics.push(Diagnostic.create(range, codesMap.get(1), DiagnosticSeverity.Error, 1))
-        continue
-      }
-      if (line.startsWith('snippet ')) {
-        let content = headTail(line)[1]
-        let ms = content.match(/^(.+?)(?:\s+(?:"(.*?)")?(?:\s+"(.*?)")?(?:\s+(\w+))?)?$/)
-        let prefix = ms[1]
-        if (prefix.length > 2 && prefix[0] == prefix[prefix.length - 1] && !/\w/.test(prefix[0])) {
-          prefix = prefix.slice(1, prefix.length - 1)
-        }
-        let option = ms[4] || ''
-        let isExpression = option.indexOf('r') !== -1
-        let startCharacter = line.length - option.length
-        for (let ch of option) {
-          if (validOptions.indexOf(ch) == -1) {
-            let range = Range.create(curr, startCharacter, curr, startCharacter + 1)
-            let message = codesMap.get(2).replace('$1', ch)
-            diagnostics.push(Diagnostic.create(range, message, DiagnosticSeverity.Error, 2))
-          }
-          startCharacter = startCharacter + 1
-        }
-        if (isExpression) {
-          try {
-            convertRegex(prefix)
-          } catch (e: any) {
-            let start = line.indexOf(prefix)
-            let range = Range.create(curr, start, curr, start + prefix.length)
-            let message = codesMap.get(3).replace('$1', e.message)
-            diagnostics.push(Diagnostic.create(range, message, DiagnosticSeverity.Error, 3))
-          }
-        }
-      } else {
-        let idx = line.indexOf('`#!')
-        if (idx !== -1) {
-          let range = Range.create(curr, idx, curr, idx + 3)
-          let message = codesMap.get(4)
-          diagnostics.push(Diagnostic.create(range, message, DiagnosticSeverity.Error, 4))
-        }
-      }
-      curr++
+    let diagnostics: Diagnostic[]
+    if (uri.endsWith('.snippets')) {
+      diagnostics = getDiagnostics(uri, content)
+    } else {
+      diagnostics = getJsonDiagnostics(content, uri.endsWith('.code-snippets'), await this.getLanguages())
     }
     if (this.trace == 'verbose') {
       this.channel.appendLine(`[Debug ${(new Date()).toLocaleTimeString()}] diagnostics of ${uri} -> ${JSON.stringify(diagnostics)}`)
@@ -143,9 +237,31 @@ export class LanguageProvider implements CompletionItemProvider {
   }
 }
 
-export function registerLanguageProvider(subscriptions: Disposable[], channel: OutputChannel, configuration: WorkspaceConfiguration) {
+function getSnippetsRoots(configuration: WorkspaceConfiguration): string[] {
+  return configuration.get<string[]>('textmateSnippetsRoots', []).map(root => workspace.expand(root))
+}
+
+/**
+ * Selector of snippet files, including JSON snippet files.
+ */
+export function getSnippetsSelector(configuration: WorkspaceConfiguration): DocumentSelector {
+  return [
+    'snippets',
+    { pattern: '**/*.code-snippets' },
+    { pattern: '**/snippets/*.json' },
+    ...getSnippetsRoots(configuration).map(root => ({ pattern: path.join(root, '*.json') }))
+  ]
+}
+
+export function registerLanguageProvider(subscriptions: Disposable[], channel: OutputChannel, configuration: WorkspaceConfiguration, manager: ProviderManager) {
   let trace = configuration.get<string>('trace', 'error')
-  let languageProvider = new LanguageProvider(channel, trace)
+  let snippetsRoots = getSnippetsRoots(configuration)
+  let languageProvider = new LanguageProvider(channel, trace, snippetsRoots)
+  let selector = getSnippetsSelector(configuration)
+  subscriptions.push(languages.registerHoverProvider(selector, new SnippetHoverProvider(manager)))
+  let outlineProvider = new SnippetOutlineProvider()
+  subscriptions.push(languages.registerDocumentSymbolProvider(selector, outlineProvider))
+  subscriptions.push(languages.registerFoldingRangeProvider(selector, outlineProvider))
   subscriptions.push(languages.registerCompletionItemProvider(
     'snippets-source',
     configuration.get('shortcut', 'S'),
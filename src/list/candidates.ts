@@ -0,0 +1,75 @@
+import { BasicList, ListContext, ListItem, workspace } from 'coc.nvim'
+import os from 'os'
+import { ProviderManager } from '../provider'
+import { SnippetEditWithSource } from '../types'
+import { getPreviewLines, insertSnippetEdit } from '../util'
+
+interface Candidate {
+  edit: SnippetEditWithSource
+  // rendered preview of resolved body
+  preview: string[]
+}
+
+/**
+ * List of snippets found on expand, the highlighted one is previewed.
+ */
+export default class CandidatesList extends BasicList {
+  public readonly name = 'snippetCandidates'
+  public readonly description = 'choose snippet to expand'
+  public defaultAction = 'expand'
+  private candidates: Candidate[] = []
+  constructor(_nvim, private manager: ProviderManager) {
+    super()
+    this.addAction('expand', async item => {
+      let { edit } = item.data as Candidate
+      this.candidates = []
+      await insertSnippetEdit(edit)
+    })
+    this.addAction('preview', async (item, context) => {
+      let { preview } = item.data as Candidate
+      await this.preview({ bufname: 'snippet-preview', lines: preview, filetype: 'markdown', sketch: true }, context)
+    }, { persist: true, reload: false })
+  }
+
+  /**
+   * Resolve previews of edits and open the list, should be called with
+   * document of edits as current buffer.
+   */
+  public async pick(bufnr: number, edits: SnippetEditWithSource[]): Promise<void> {
+    let doc = workspace.getDocument(bufnr)
+    if (!doc) return
+    let candidates: Candidate[] = []
+    for (let edit of edits) {
+      let text: string
+      try {
+        text = await this.manager.resolveSnippetEdit(edit, doc.getline(edit.range.start.line))
+      } catch (e) {
+        text = edit.newText
+      }
+      candidates.push({ edit, preview: getPreviewLines(text, doc.filetype, `${edit.location}:${edit.lnum}`) })
+    }
+    this.candidates = candidates
+    await workspace.nvim.command(`CocList --normal --auto-preview ${this.name}`)
+  }
+
+  public async loadItems(_context: ListContext): Promise<ListItem[]> {
+    return this.candidates.map(candidate => {
+      let { edit } = candidate
+      return {
+        label: `${edit.prefix}\t${edit.description || ''}\t[${edit.source}] ${edit.location.replace(os.homedir(), '~')}:${edit.lnum}`,
+        filterText: `${edit.prefix} ${edit.description || ''}`,
+        data: candidate
+      }
+    })
+  }
+
+  public async doHighlight(): Promise<void> {
+    let { nvim } = workspace
+    nvim.pauseNotification()
+    nvim.command('syntax match CocSnippetCandidatesSource /\\v\\t\\[\\w+\\]/ contained containedin=CocSnippetCandidatesLine', true)
+    nvim.command('syntax match CocSnippetCandidatesFile /\\v\\S+$/ contained containedin=CocSnippetCandidatesLine', true)
+    nvim.command('highlight default link CocSnippetCandidatesSource Type', true)
+    nvim.command('highlight default link CocSnippetCandidatesFile Comment', true)
+    void nvim.resumeNotification(false, true)
+  }
+}
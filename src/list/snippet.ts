@@ -2,22 +2,124 @@
 MIT License http://www.opensource.org/licenses/mit-license.php
 Author Qiming Zhao <chemzqm@gmail> (https://github.com/chemzqm)
 *******************************************************************/
-import { BasicList, ListContext, ListItem, Location, Position, Range, Uri, workspace } from 'coc.nvim'
+import { BasicList, ListContext, ListItem, Location, Position, Range, Uri, window, workspace } from 'coc.nvim'
+import fs from 'fs'
 import os from 'os'
+import { SnippetsConverter } from '../converter'
+import { MassCodeProvider } from '../massCodeProvider'
 import { ProviderManager } from '../provider'
-import { getLastSnippet, getSnippetFiletype } from '../util'
+import { duplicateSnippet, getSnippetBlocks, getSnippetFileFormat, removeSnippet, SnippetFileFormat } from '../snippetDocument'
+import { Snippet } from '../types'
+import { getUsageScore } from '../usage'
+import { characterIndex, getLastSnippet, getPreviewLines, getSnippetFiletype, insertSnippetEdit, snippetToEdit } from '../util'
 
 function formatPrefix(prefix: string): string {
   if (prefix.length >= 20) return prefix.slice(0, 17) + '...'
   return prefix + ' '.repeat(20 - prefix.length)
 }
 
+interface SnippetFile {
+  format: SnippetFileFormat
+  content: string
+}
+
+async function readSnippetFile(filepath: string): Promise<SnippetFile | undefined> {
+  if (!fs.existsSync(filepath)) return undefined
+  let content = await fs.promises.readFile(filepath, 'utf8')
+  let format = getSnippetFileFormat(Uri.file(filepath).toString(), content)
+  return format ? { format, content } : undefined
+}
+
+async function writeSnippetFile(filepath: string, content: string): Promise<void> {
+  await fs.promises.writeFile(filepath, content, 'utf8')
+  // reload buffer of the file
+  workspace.nvim.command('silent! checktime', true)
+}
+
 export default class SnippetsList extends BasicList {
   public readonly name = 'snippets'
   public readonly description = 'snippets list'
-  constructor(_nvim, private manager: ProviderManager) {
+  constructor(_nvim, private manager: ProviderManager, private converter?: SnippetsConverter) {
     super()
     this.addLocationActions()
+    this.addMultipleAction('convert', async items => {
+      let snippets = items.map(item => item.data.snippet)
+      await this.converter?.convert(snippets, snippets[0].filetype)
+    })
+    this.addAction('preview', async (item, context) => {
+      let snippet = item.data.snippet as Snippet
+      let text = await this.manager.resolveSnippet(snippet)
+      let lines = getPreviewLines(text, item.data.filetype, `${snippet.filepath}:${snippet.lnum}`)
+      await this.preview({ bufname: 'snippet-preview', lines, filetype: 'markdown', sketch: true }, context)
+    }, { persist: true, reload: false })
+    this.addAction('insert', async (item, context) => {
+      let buf = await context.window.buffer
+      let doc = workspace.getDocument(buf.id)
+      if (!doc) return
+      let [lnum, col] = await context.window.cursor
+      let pos = Position.create(lnum - 1, characterIndex(doc.getline(lnum - 1), col))
+      await insertSnippetEdit(snippetToEdit(item.data.snippet, Range.create(pos, pos)))
+    })
+    this.addAction('copy', async item => {
+      let body = await this.getSourceBody(item.data.snippet)
+      let { nvim } = workspace
+      await nvim.call('setreg', ['"', body])
+      if (await nvim.call('has', ['clipboard'])) await nvim.call('setreg', ['+', body])
+      window.showInformationMessage(`Copied body of snippet "${item.data.prefix}"`)
+    })
+    this.addAction('delete', async item => {
+      let snippet = item.data.snippet as Snippet
+      let confirmed = await window.showPrompt(`Delete snippet "${item.data.prefix}" from ${snippet.filepath}?`)
+      if (!confirmed) return
+      await this.deleteSnippet(snippet)
+    })
+    this.addAction('duplicate', async item => {
+      await this.duplicateSnippet(item.data.snippet)
+    })
+  }
+
+  /**
+   * Body of snippet in format of its provider, read from snippets file.
+   */
+  private async getSourceBody(snippet: Snippet): Promise<string> {
+    let file = await readSnippetFile(snippet.filepath)
+    if (!file) return snippet.body
+    let block = getSnippetBlocks(file.format, file.content).find(o => o.kind == 'snippet' && o.start == snippet.lnum)
+    return block ? block.body : snippet.body
+  }
+
+  private async deleteSnippet(snippet: Snippet): Promise<void> {
+    let provider = this.manager.getProvider(snippet.provider)
+    if (provider instanceof MassCodeProvider) {
+      await provider.removeSnippet(snippet)
+      return
+    }
+    let file = await readSnippetFile(snippet.filepath)
+    let content = file ? removeSnippet(file.format, file.content, snippet.lnum) : undefined
+    if (content == null) {
+      window.showWarningMessage(`Snippet not found in ${snippet.filepath}`)
+      return
+    }
+    await writeSnippetFile(snippet.filepath, content)
+  }
+
+  /**
+   * Copy snippet in its source file and jump to the copy.
+   */
+  private async duplicateSnippet(snippet: Snippet): Promise<void> {
+    let provider = this.manager.getProvider(snippet.provider)
+    if (provider instanceof MassCodeProvider) {
+      await provider.duplicateSnippet(snippet)
+      return
+    }
+    let file = await readSnippetFile(snippet.filepath)
+    let res = file ? duplicateSnippet(file.format, file.content, snippet.lnum) : undefined
+    if (res == null) {
+      window.showWarningMessage(`Snippet not found in ${snippet.filepath}`)
+      return
+    }
+    await writeSnippetFile(snippet.filepath, res.content)
+    await workspace.jumpTo(Uri.file(snippet.filepath).toString(), Position.create(res.lnum, 0))
   }
 
   public async loadItems(context: ListContext): Promise<ListItem[]> {
@@ -28,7 +130,7 @@ export default class SnippetsList extends BasicList {
     let doc = workspace.getDocument(buf.id)
     if (!doc) return []
     let filetype = getSnippetFiletype(doc)
-    let snippets = this.manager.getSnippets(filetype)
+    let snippets = this.manager.getSnippets(filetype, Uri.parse(doc.uri).fsPath)
     let res: ListItem[] = []
     let last = getLastSnippet()
     for (let snip of snippets) {
@@ -41,10 +143,10 @@ export default class SnippetsList extends BasicList {
         filterText: `${snip.prefix} ${snip.description}`,
         preselect,
         location,
-        data: { prefix }
+        data: { prefix, filetype: doc.filetype, snippet: snip, score: getUsageScore(snip.filepath, snip.lnum, snip.prefix) }
       })
     }
-    res.sort((a, b) => a.data.prefix.localeCompare(b.data.prefix))
+    res.sort((a, b) => b.data.score - a.data.score || a.data.prefix.localeCompare(b.data.prefix))
     return res
   }
 
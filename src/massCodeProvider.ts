@@ -1,8 +1,10 @@
-import { Document, OutputChannel, Position, Range, window, workspace } from 'coc.nvim'
+import { Disposable, Document, OutputChannel, Position, Range, window, workspace } from 'coc.nvim'
 import http from 'http'
 
+import { matchTrigger, TriggerMatch } from './matcher'
 import type { MassCodeConfig, Snippet, SnippetEdit } from './types'
 import { TriggerKind } from './types'
+import { getSnippetFiletype } from './util'
 
 import BaseProvider from './baseProvider'
 
@@ -17,7 +19,7 @@ interface HttpConfig {
   host: string
   port: number
   path?: string
-  method: 'GET' | 'POST'
+  method: 'GET' | 'POST' | 'PATCH'
 }
 
 interface HttpError {
@@ -31,68 +33,180 @@ interface HttpResponseItem {
   description?: string
   name: string
   content: SnippetContent[]
+  tagsIds?: string[]
   id: string
   createdAt: number
   updatedAt: number
 }
 
+interface MassCodeFolder {
+  id: string
+  name: string
+  parentId?: string | null
+}
+
+interface MassCodeTag {
+  id: string
+  name: string
+}
+
 type OnEnd = (resolve: (...args: any) => void, reject: (...args: any) => void, body: any) => void
 
-function getMatched(snippet: Snippet, line: string): string | undefined {
-  let { prefix, regex } = snippet
-  if (regex) {
-    let ms = line.match(regex)
-    if (!ms) return undefined
-    return ms[0]
+const unknownFileTypes = ['typescriptreact', 'javascriptreact']
+
+// massCode languages that differ from vim filetypes
+const languageFiletypes: Record<string, string> = {
+  c_cpp: 'cpp',
+  csharp: 'cs',
+  golang: 'go',
+  jsx: 'javascriptreact',
+  tsx: 'typescriptreact',
+  batchfile: 'dosbatch',
+  plain_text: 'all'
+}
+
+// tags of massCode snippet used as trigger kind
+const tagTriggerKinds: Record<string, TriggerKind> = {
+  'line-begin': TriggerKind.LineBegin,
+  'space-before': TriggerKind.SpaceBefore,
+  'word-boundary': TriggerKind.WordBoundary,
+  'in-word': TriggerKind.InWord
+}
+
+// tag of massCode snippet expanded on type
+const autoTriggerTag = 'auto-trigger'
+
+/**
+ * Map massCode snippets to snippets, filetypes of folder or parent folder in
+ * folderFiletypes are used instead of fragment language, fragments of snippet
+ * with more than one fragment are named by label.
+ */
+export function mapMassCodeItems(items: HttpResponseItem[], folders: MassCodeFolder[], tags: MassCodeTag[], folderFiletypes: Record<string, string | string[]>): Snippet[] {
+  const getFolderFiletypes = (folderId: string | null | undefined): string[] | undefined => {
+    let visited: Set<string> = new Set()
+    while (folderId && !visited.has(folderId)) {
+      visited.add(folderId)
+      let folder = folders.find(o => o.id == folderId)
+      if (!folder) return undefined
+      let filetypes = folderFiletypes[folder.name]
+      if (filetypes) return Array.isArray(filetypes) ? filetypes : [filetypes]
+      folderId = folder.parentId
+    }
+    return undefined
   }
-  if (!line.endsWith(prefix)) return undefined
-  return prefix
+  return items.filter(item => !item.isDeleted).flatMap(item => {
+    let triggerKind = TriggerKind.WordBoundary
+    let autoTrigger = false
+    for (let id of item.tagsIds ?? []) {
+      let tag = tags.find(o => o.id == id)
+      if (tag && tagTriggerKinds[tag.name] != null) triggerKind = tagTriggerKinds[tag.name]
+      if (tag && tag.name == autoTriggerTag) autoTrigger = true
+    }
+    let folderTypes = getFolderFiletypes(item.folderId)
+    return item.content.flatMap((content, index) => {
+      let prefix = item.content.length > 1 ? `${item.name}-${content.label.trim().toLowerCase().replace(/\s+/g, '-')}` : item.name
+      let filetypes = folderTypes ?? [languageFiletypes[content.language] ?? content.language]
+      return filetypes.map(filetype => {
+        return {
+          filepath: item.id,
+          lnum: index,
+          body: content.value,
+          prefix,
+          description: item.description || item.name,
+          triggerKind,
+          autoTrigger: autoTrigger ? true : undefined,
+          filetype,
+          priority: item.isFavorites ? 1 : 0
+        }
+      })
+    })
+  })
 }
 
-const unknownFileTypes = ['typescriptreact', 'javascriptreact']
+// max times of refresh interval to wait after connection failures in a row
+const maxRefreshBackoff = 16
 
 export class MassCodeProvider extends BaseProvider {
   private massCodeItems: HttpResponseItem[] = []
+  private folders: MassCodeFolder[] = []
+  private tags: MassCodeTag[] = []
   private baseHttpConfig: HttpConfig
+  private timer: NodeJS.Timeout | undefined
+  // failed refresh in a row
+  private failures = 0
 
-  constructor(channel: OutputChannel, protected config: MassCodeConfig) {
+  constructor(channel: OutputChannel, protected config: MassCodeConfig, private subscriptions: Disposable[] = []) {
     super(config, channel)
   }
 
   public async init(): Promise<void> {
     this.baseHttpConfig = { host: this.config.host, port: this.config.port, method: 'GET' }
-    this.massCodeItems = await this.loadAllSnippets()
+    await this.refresh(true)
+    let interval = this.config.refreshInterval ?? 0
+    if (interval > 0 && !this.timer) {
+      this.scheduleRefresh(interval * 1000)
+      this.subscriptions.push(Disposable.create(() => {
+        clearTimeout(this.timer)
+        this.timer = undefined
+      }))
+    }
+  }
+
+  /**
+   * Refresh after interval, the delay is doubled on each failure in a row
+   * when massCode is not running.
+   */
+  private scheduleRefresh(interval: number): void {
+    let delay = interval * Math.min(2 ** this.failures, maxRefreshBackoff)
+    this.timer = setTimeout(async () => {
+      await this.refresh(false)
+      if (this.timer) this.scheduleRefresh(interval)
+    }, delay)
+  }
+
+  /**
+   * Reload snippets from massCode, loaded snippets are kept on error.
+   */
+  public async refresh(notify: boolean): Promise<boolean> {
+    try {
+      this.massCodeItems = await this.loadAllSnippets()
+      this.folders = await this.loadList<MassCodeFolder>('/folders').catch(() => [])
+      this.tags = await this.loadList<MassCodeTag>('/tags').catch(() => [])
+      if (this.failures > 0) this.info('Reconnected to massCode')
+      this.failures = 0
+      return true
+    } catch (e: any) {
+      // logged once until reconnected
+      if (this.failures == 0 || notify) this.error(`Error on load massCode snippets: ${e.message}`)
+      this.failures++
+      if (notify) window.showErrorMessage(e.message)
+      return false
+    }
   }
 
   public async getSnippetFiles(filetype: string): Promise<string[]> {
     let filetypes = this.getFiletypes(filetype)
     filetypes.push('all')
     let res: string[] = []
-    for (let s of this.massCodeItems) {
-      if (s.isDeleted) continue
-      for (let c of s.content) {
-        if (filetypes.includes(c.language)) {
-          res.push(s.folderId)
-        }
+    for (let s of this.mapItems()) {
+      if (filetypes.includes(s.filetype)) {
+        let item = this.massCodeItems.find(o => o.id == s.filepath)
+        res.push(item.folderId)
       }
     }
     return res
   }
 
   public async getTriggerSnippets(document: Document, position: Position, autoTrigger?: boolean): Promise<SnippetEdit[]> {
-    if (autoTrigger) return []
-    const line = document.getline(position.line)
+    const line = document.getline(position.line).slice(0, position.character)
     if (line.length == 0) return []
+    const filetype = getSnippetFiletype(document)
+    let matches: Map<Snippet, TriggerMatch> = new Map()
     const snippets = this.getDocumentSnippets(document).filter(s => {
-      if (autoTrigger && !s.autoTrigger) return false
-      let match = getMatched(s, line)
-      if (match == null) return false
-      if (s.triggerKind == TriggerKind.InWord) return true
-      let pre = line.slice(0, line.length - match.length)
-      if (s.triggerKind == TriggerKind.LineBegin) return pre.trim() == ''
-      if (s.triggerKind == TriggerKind.SpaceBefore) return pre.length == 0 || /\s$/.test(pre)
-      if (s.triggerKind == TriggerKind.WordBoundary) return pre.length == 0 || !document.isWord(pre[pre.length - 1])
-      return false
+      if (autoTrigger && !this.isAutoTrigger(s, filetype)) return false
+      let match = matchTrigger(s, line, ch => document.isWord(ch))
+      if (match) matches.set(s, match)
+      return match != null
     })
     snippets.sort((a, b) => {
       if (a.context && !b.context) return -1
@@ -102,7 +216,6 @@ export class MassCodeProvider extends BaseProvider {
     let edits: SnippetEdit[] = []
     let hasContext = false
     for (let s of snippets) {
-      let character: number
       if (s.context) {
         let valid = await this.checkContext(s.context)
         if (!valid) continue
@@ -110,13 +223,7 @@ export class MassCodeProvider extends BaseProvider {
       } else if (hasContext) {
         break
       }
-      if (s.regex == null) {
-        character = position.character - s.prefix.length
-      } else {
-        let len = line.match(s.regex)[0].length
-        character = position.character - len
-      }
-      let range = Range.create(position.line, character, position.line, position.character)
+      let range = Range.create(position.line, matches.get(s).character, position.line, position.character)
       edits.push({
         range,
         newText: s.body,
@@ -134,41 +241,31 @@ export class MassCodeProvider extends BaseProvider {
 
   private async loadAllSnippets(): Promise<HttpResponseItem[]> {
     this.info(`Loading all massCode snippets from http://${this.config.host}:${this.config.port}/snippets/embed-folder`)
+    return this.loadList<HttpResponseItem>('/snippets/embed-folder')
+  }
+
+  private async loadList<T>(path: string): Promise<T[]> {
     const options: HttpConfig = {
       ...this.baseHttpConfig,
-      path: '/snippets/embed-folder',
+      path,
     }
 
     const onEnd: OnEnd = (resolve, reject, body) => {
       try {
-        resolve(JSON.parse(Buffer.concat(body).toString()))
+        let items = JSON.parse(Buffer.concat(body).toString())
+        if (!Array.isArray(items)) throw new Error(`Invalid response of massCode ${path}`)
+        resolve(items)
       } catch (e) {
         reject(e)
       }
     }
 
-    return promisifyHttpRequest<HttpResponseItem[]>(options, onEnd)
+    return promisifyHttpRequest<T[]>(options, onEnd)
   }
 
+  // filepath is id of massCode snippet, lnum is index of fragment
   private mapItems(): Snippet[] {
-    let counter = 0
-    return this.massCodeItems.filter(item => !item.isDeleted).flatMap((item) => {
-      return item.content.map(content => {
-        const snippet = {
-          filepath: item.id,
-          lnum: counter,
-          body: content.value,
-          prefix: item.name,
-          description: item.name,
-          triggerKind: TriggerKind.WordBoundary,
-          filetype: content.language,
-        }
-
-        counter = counter + 1
-
-        return snippet
-      })
-    })
+    return mapMassCodeItems(this.massCodeItems, this.folders, this.tags, this.config.folderFiletypes ?? {})
   }
 
   public getSnippets(filetype: string): Snippet[] {
@@ -183,8 +280,8 @@ export class MassCodeProvider extends BaseProvider {
       return Promise.resolve()
     }
 
-    // Reinitialize the snippets to see if we saved one with the same name in a previous attempt
-    await this.init()
+    // Reload the snippets to see if we saved one with the same name in a previous attempt
+    if (!await this.refresh(true)) return
 
     const filetypes = this.getFiletypes(doc.filetype).filter(filetype => {
       return !unknownFileTypes.includes(filetype)
@@ -201,17 +298,7 @@ export class MassCodeProvider extends BaseProvider {
       path: '/snippets/create'
     }
 
-    const onEnd: OnEnd = (resolve, reject, body) => {
-      try {
-        resolve(body)
-      } catch (e) {
-        reject(e)
-      }
-    }
-
-    const requests = filetypes.map(filetype => {
-      const lnums = this.mapItems().map(item => item.lnum)
-      const newIndex = lnums.length ? Math.max(...lnums) + 1 : 0
+    const requests = filetypes.map(async filetype => {
       const newSnippet = {
         content: [{
           label: 'Fragment 1',
@@ -219,31 +306,158 @@ export class MassCodeProvider extends BaseProvider {
           language: filetype,
         }],
         createdAt: Date.now(),
-        folderId: `${newIndex}`,
-        id: `${newIndex}`,
         isDeleted: false,
         isFavorites: false,
         name,
         updatedAt: Date.now(),
       }
+      const created = await promisifyHttpRequest<Partial<HttpResponseItem>>(config, onJsonEnd, JSON.stringify(newSnippet))
+      if (!created || typeof created.id !== 'string') return undefined
+      return Object.assign({ folderId: '' }, newSnippet, created, { id: created.id })
+    })
+
+    try {
+      const items = await Promise.all(requests)
+      if (items.every(item => item != null)) {
+        // Add the new snippets with ids from massCode so they are available immediately.
+        this.massCodeItems.push(...items)
+      } else {
+        await this.refresh(false)
+      }
+    } catch (e: any) {
+      this.error(`Error on create massCode snippet: ${e.message}`)
+      window.showErrorMessage(e.message)
+    }
+  }
 
-      // Add the new snippet so it is available immediately.
-      // Calling this.init() here does not work
-      this.massCodeItems.push(newSnippet)
-      return promisifyHttpRequest(config, onEnd, JSON.stringify(newSnippet))
+  /**
+   * Rename the massCode snippet under cursor or picked one, the body of
+   * fragment is replaced when text exists.
+   */
+  public async updateSnippet(text?: string): Promise<void> {
+    const snippet = await this.pickSnippet('Update massCode snippet')
+    if (!snippet) return
+    const item = this.massCodeItems.find(o => o.id == snippet.filepath)
+    const name = await window.requestInput('Snippet Name', item.name)
+    if (!name) return
+    const content = item.content.map((o, index) => {
+      return index == snippet.lnum && text != null ? Object.assign({}, o, { value: text.replace(/\n$/, '') }) : o
     })
+    await this.patchSnippet(item, { name, content, updatedAt: Date.now() })
+  }
 
-    await Promise.all(requests)
+  /**
+   * Move the massCode snippet under cursor or picked one to trash.
+   */
+  public async deleteSnippet(): Promise<void> {
+    const snippet = await this.pickSnippet('Delete massCode snippet')
+    if (!snippet) return
+    const item = this.massCodeItems.find(o => o.id == snippet.filepath)
+    const confirmed = await window.showPrompt(`Delete massCode snippet "${item.name}"?`)
+    if (!confirmed) return
+    await this.removeSnippet(snippet)
+  }
+
+  /**
+   * Move massCode snippet to trash without prompt.
+   */
+  public async removeSnippet(snippet: Snippet): Promise<void> {
+    const item = this.massCodeItems.find(o => o.id == snippet.filepath)
+    if (!item) return
+    await this.patchSnippet(item, { isDeleted: true, updatedAt: Date.now() })
+  }
+
+  /**
+   * Create a copy of massCode snippet, named with number suffix like `name (2)`.
+   */
+  public async duplicateSnippet(snippet: Snippet): Promise<void> {
+    const item = this.massCodeItems.find(o => o.id == snippet.filepath)
+    if (!item) return
+    let name = item.name
+    for (let i = 2; this.massCodeItems.some(o => o.name == name); i++) {
+      name = `${item.name} (${i})`
+    }
+    const config: HttpConfig = {
+      ...this.baseHttpConfig,
+      method: 'POST',
+      path: '/snippets/create'
+    }
+    const newSnippet = {
+      content: item.content,
+      createdAt: Date.now(),
+      description: item.description,
+      folderId: item.folderId,
+      isDeleted: false,
+      isFavorites: false,
+      name,
+      tagsIds: item.tagsIds,
+      updatedAt: Date.now(),
+    }
+    try {
+      const created = await promisifyHttpRequest<Partial<HttpResponseItem>>(config, onJsonEnd, JSON.stringify(newSnippet))
+      if (created && typeof created.id === 'string') {
+        this.massCodeItems.push(Object.assign({}, newSnippet, created, { id: created.id }))
+      } else {
+        await this.refresh(false)
+      }
+    } catch (e: any) {
+      this.error(`Error on create massCode snippet: ${e.message}`)
+      window.showErrorMessage(e.message)
+    }
+  }
+
+  private async patchSnippet(item: HttpResponseItem, data: Partial<HttpResponseItem>): Promise<void> {
+    const config: HttpConfig = {
+      ...this.baseHttpConfig,
+      method: 'PATCH',
+      path: `/snippets/${encodeURIComponent(item.id)}`
+    }
+    try {
+      await promisifyHttpRequest(config, onJsonEnd, JSON.stringify(data))
+      Object.assign(item, data)
+    } catch (e: any) {
+      this.error(`Error on update massCode snippet ${item.id}: ${e.message}`)
+      window.showErrorMessage(e.message)
+    }
+  }
+
+  /**
+   * Snippet of trigger before cursor, or picked from snippets of current filetype.
+   */
+  private async pickSnippet(title: string): Promise<Snippet | undefined> {
+    const doc = await workspace.document
+    if (!await this.refresh(true)) return undefined
+    const snippets = this.getDocumentSnippets(doc)
+    const position = await window.getCursorPosition()
+    const line = doc.getline(position.line).slice(0, position.character)
+    const matched = snippets.filter(s => matchTrigger(s, line, ch => doc.isWord(ch)) != null)
+    if (matched.length == 1) return matched[0]
+    const items = matched.length > 1 ? matched : snippets
+    if (items.length == 0) {
+      window.showWarningMessage(`No massCode snippet found for ${doc.filetype}`)
+      return undefined
+    }
+    const idx = await window.showMenuPicker(items.map(s => `${s.prefix} [${s.filetype}]`), { title })
+    return idx == -1 ? undefined : items[idx]
+  }
+}
+
+const onJsonEnd: OnEnd = (resolve, _reject, body) => {
+  try {
+    resolve(JSON.parse(Buffer.concat(body).toString()))
+  } catch (e) {
+    // massCode could respond without json body
+    resolve(undefined)
   }
 }
 
 async function promisifyHttpRequest<T = any>(config: HttpConfig, onEnd: OnEnd, body?: string): Promise<T> {
   const options = { ...config }
 
-  if (options.method === 'POST' && body.length) {
+  if (options.method !== 'GET' && body.length) {
     options.headers = {
       'Content-Type': 'application/json',
-      'Content-Length': body.length,
+      'Content-Length': Buffer.byteLength(body),
     }
   }
 
@@ -261,11 +475,7 @@ async function promisifyHttpRequest<T = any>(config: HttpConfig, onEnd: OnEnd, b
       })
     })
     req.on('error', function(err: HttpError) {
-      if (err.code === 'ECONNREFUSED') {
-        window.showErrorMessage('massCode is not running')
-      } else {
-        reject(err)
-      }
+      reject(err.code === 'ECONNREFUSED' ? new Error('massCode is not running') : err)
     })
     if (body) {
       req.write(body)
@@ -0,0 +1,73 @@
+import { Snippet, TriggerKind } from './types'
+
+export interface TriggerMatch {
+  // matched text of trigger
+  text: string
+  // start character of matched text
+  character: number
+}
+
+type IsWord = (character: string) => boolean
+
+/**
+ * Last character of text, surrogate pairs are kept together.
+ */
+export function lastCharacter(text: string): string {
+  if (text.length == 0) return ''
+  let code = text.charCodeAt(text.length - 1)
+  if (code >= 0xdc00 && code <= 0xdfff && text.length > 1) return text.slice(-2)
+  return text[text.length - 1]
+}
+
+/**
+ * First character of text, surrogate pairs are kept together.
+ */
+export function firstCharacter(text: string): string {
+  if (text.length == 0) return ''
+  let code = text.charCodeAt(0)
+  if (code >= 0xd800 && code <= 0xdbff && text.length > 1) return text.slice(0, 2)
+  return text[0]
+}
+
+/**
+ * Check position of trigger by TriggerKind, text before trigger is `pre`.
+ * Word boundary exists when character before trigger is not a keyword
+ * character, prefix boundary also exists when trigger starts with none keyword
+ * character, so VSCode prefixes like `.log` could be triggered after word.
+ */
+export function checkTriggerKind(kind: TriggerKind, pre: string, text: string, isWord: IsWord): boolean {
+  switch (kind) {
+    case TriggerKind.InWord:
+      return true
+    case TriggerKind.LineBegin:
+      return pre.trim() == ''
+    case TriggerKind.SpaceBefore:
+      return pre.length == 0 || /\s$/.test(pre)
+    case TriggerKind.WordBoundary:
+      return pre.length == 0 || !isWord(lastCharacter(pre))
+    case TriggerKind.PrefixBoundary:
+      return pre.length == 0 || !isWord(lastCharacter(pre)) || !isWord(firstCharacter(text))
+    default:
+      return false
+  }
+}
+
+/**
+ * Match trigger of snippet at end of text before cursor, isWord should respect
+ * iskeyword of document.
+ */
+export function matchTrigger(snippet: Pick<Snippet, 'prefix' | 'regex' | 'triggerKind'>, before: string, isWord: IsWord): TriggerMatch | undefined {
+  let { prefix, regex } = snippet
+  let text: string
+  if (regex) {
+    let ms = before.match(regex)
+    if (!ms || ms[0].length == 0) return undefined
+    text = ms[0]
+  } else {
+    if (!prefix || !before.endsWith(prefix)) return undefined
+    text = prefix
+  }
+  let character = before.length - text.length
+  if (!checkTriggerKind(snippet.triggerKind, before.slice(0, character), text, isWord)) return undefined
+  return { text, character }
+}
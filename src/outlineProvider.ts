@@ -0,0 +1,36 @@
+import { CancellationToken, DocumentSymbol, DocumentSymbolProvider, FoldingContext, FoldingRange, FoldingRangeProvider, LinesTextDocument, Range, SymbolKind } from 'coc.nvim'
+import { getSnippetBlocks, getSnippetFileFormat, SnippetBlock } from './snippetDocument'
+
+function getBlocks(document: LinesTextDocument): SnippetBlock[] {
+  let content = document.getText()
+  let format = getSnippetFileFormat(document.uri, content)
+  if (!format) return []
+  return getSnippetBlocks(format, content)
+}
+
+function getName(block: SnippetBlock): string {
+  let trigger = block.prefixes ? block.prefixes.join(', ') || block.name : block.name
+  return block.description ? `${trigger} "${block.description.split('\n')[0]}"` : trigger
+}
+
+/**
+ * Symbols and folding ranges of snippet and global blocks in snippet files.
+ */
+export class SnippetOutlineProvider implements DocumentSymbolProvider, FoldingRangeProvider {
+  public provideDocumentSymbols(document: LinesTextDocument, _token: CancellationToken): DocumentSymbol[] {
+    return getBlocks(document).map(block => {
+      let { start, end } = block
+      let range = Range.create(start, 0, end, document.lines[end]?.length ?? 0)
+      let selectionRange = Range.create(start, 0, start, document.lines[start]?.length ?? 0)
+      let kind = block.kind == 'global' ? SymbolKind.Module : SymbolKind.Function
+      let detail = block.prefixes ? block.name : undefined
+      return DocumentSymbol.create(getName(block), detail, kind, range, selectionRange)
+    })
+  }
+
+  public provideFoldingRanges(document: LinesTextDocument, _context: FoldingContext, _token: CancellationToken): FoldingRange[] {
+    return getBlocks(document).filter(block => block.end > block.start).map(block => {
+      return FoldingRange.create(block.start, block.end)
+    })
+  }
+}
@@ -1,8 +1,9 @@
-import { CancellationToken, CompletionItem, CompletionItemKind, CompletionItemProvider, Disposable, Document, InsertTextFormat, LinesTextDocument, OutputChannel, Position, Range, snippetManager, TextEditor, window, workspace, WorkspaceConfiguration } from 'coc.nvim'
+import { CancellationToken, CompletionItem, CompletionItemKind, CompletionItemProvider, Disposable, Document, InsertTextFormat, LinesTextDocument, OutputChannel, Position, Range, snippetManager, TextEditor, Uri, window, workspace, WorkspaceConfiguration } from 'coc.nvim'
 import path from 'path'
 import BaseProvider from './baseProvider'
 import { Snippet, SnippetEditWithSource, TriggerKind, VimCompletionContext } from './types'
-import { characterIndex, getSnippetFiletype, markdownBlock } from './util'
+import { usageSortText } from './usage'
+import { characterIndex, getSnippetFiletype, getSyntaxNames, isSnippetAvailable, markdownBlock, matchSyntax } from './util'
 
 export class ProviderManager implements CompletionItemProvider {
   private providers: Map<string, BaseProvider> = new Map()
@@ -23,6 +24,10 @@ export class ProviderManager implements CompletionItemProvider {
     })
   }
 
+  public getProvider(name: string): BaseProvider | undefined {
+    return this.providers.get(name)
+  }
+
   public get hasProvider(): boolean {
     return this.providers.size > 0
   }
@@ -47,7 +52,8 @@ export class ProviderManager implements CompletionItemProvider {
       if (newFiletype && newFiletype != filetype) {
         filetype = newFiletype
         let bufnr = e.document.bufnr
-        await Promise.allSettled(providers.map(provider => provider.onFiletypeChange(bufnr, filetype).catch(e => {
+        // providers registered after init are included
+        await Promise.allSettled(Array.from(this.providers.values()).map(provider => provider.onFiletypeChange(bufnr, filetype).catch(e => {
           this.appendError('Error on filetype change:', e)
         })))
       }
@@ -59,6 +65,17 @@ export class ProviderManager implements CompletionItemProvider {
     await Promise.allSettled(promises)
   }
 
+  /**
+   * Init provider registered after init, snippets for filetypes of opened
+   * documents are loaded like init.
+   */
+  public async initProvider(name: string, provider: BaseProvider): Promise<void> {
+    await provider.init()
+    await Promise.allSettled(workspace.documents.map(doc => provider.loadSnippetsByFiletype(getSnippetFiletype(doc)).catch(e => {
+      this.appendError(`Error on load "${name}" snippets:`, e)
+    })))
+  }
+
   public async loadSnippetsByFiletype(filetype: string): Promise<void> {
     let promises: Promise<void>[] = []
     for (let [name, provider] of this.providers.entries()) {
@@ -69,13 +86,30 @@ export class ProviderManager implements CompletionItemProvider {
     await Promise.allSettled(promises)
   }
 
-  public getSnippets(filetype: string): Snippet[] {
+  /**
+   * Snippets of filetype, snippets of other workspace folders are excluded
+   * when filepath is given.
+   */
+  public getSnippets(filetype: string, filepath?: string): Snippet[] {
+    let snippets = this.collectSnippets(filetype, provider => provider.getSnippets(filetype))
+    if (filepath == null) return snippets
+    return snippets.filter(s => isSnippetAvailable(s, filepath))
+  }
+
+  /**
+   * Snippets of all providers, including snippets shadowed inside provider.
+   */
+  public getAllSnippets(filetype: string): Snippet[] {
+    return this.collectSnippets(filetype, provider => provider.getAllSnippets(filetype))
+  }
+
+  private collectSnippets(filetype: string, fn: (provider: BaseProvider) => Snippet[]): Snippet[] {
     let names = Array.from(this.providers.keys())
     let list: Snippet[] = []
     for (let name of names) {
       let provider = this.providers.get(name)
       try {
-        let snippets = provider.getSnippets(filetype)
+        let snippets = fn(provider)
         snippets.map(s => s.provider = name)
         list.push(...snippets)
       } catch (e: any) {
@@ -127,14 +161,46 @@ export class ProviderManager implements CompletionItemProvider {
         this.appendError(`get trigger snippets of ${name}`, e)
       }
     }
+    if (list.some(o => o.syntax)) {
+      let syntaxNames = await getSyntaxNames(doc, position)
+      list = list.filter(o => matchSyntax(o.syntax, syntaxNames))
+    }
     list.sort((a, b) => b.priority - a.priority)
-    if (list.length > 1) {
+    // auto trigger snippets are resolved by resolveAutoTrigger
+    if (list.length > 1 && !autoTrigger) {
       let priority = list[0].priority
       list = list.filter(o => o.priority == priority)
     }
     return list
   }
 
+  /**
+   * Resolve body of snippet to text, used for preview.
+   */
+  public async resolveSnippet(snippet: Snippet): Promise<string> {
+    let provider = this.providers.get(snippet.provider)
+    let body = snippet.body
+    if (provider && typeof provider.resolveSnippetBody === 'function') {
+      body = await Promise.resolve(provider.resolveSnippetBody(body))
+    }
+    let ultisnip = snippet.provider == 'ultisnips' || snippet.provider == 'snipmate'
+    let pos = Position.create(0, 0)
+    return await snippetManager.resolveSnippet(body, ultisnip ? { range: Range.create(pos, pos), line: '' } : undefined)
+  }
+
+  /**
+   * Resolve body of trigger snippet edit to text, `line` is the line of edit.
+   */
+  public async resolveSnippetEdit(edit: SnippetEditWithSource, line: string): Promise<string> {
+    let provider = this.providers.get(edit.source)
+    let body = edit.newText
+    if (provider && typeof provider.resolveSnippetBody === 'function') {
+      body = await Promise.resolve(provider.resolveSnippetBody(body))
+    }
+    let ultisnip = edit.source == 'ultisnips' || edit.source == 'snipmate'
+    return await snippetManager.resolveSnippet(body, ultisnip ? { range: edit.range, line, regex: edit.regex } : undefined)
+  }
+
   private appendError(name: string, e: Error | string): void {
     this.channel.appendLine(`[Error ${(new Date()).toLocaleTimeString()}] Error on ${name}: ${typeof e === 'string' ? e : e.message}`)
     if (e instanceof Error) {
@@ -161,7 +227,7 @@ export class ProviderManager implements CompletionItemProvider {
     if (!doc || !this.checkSyntax(context.option.synname)) return []
     let bufnr = doc.bufnr
     let filetype = getSnippetFiletype(doc)
-    let snippets = this.getSnippets(filetype)
+    let snippets = this.getSnippets(filetype, Uri.parse(doc.uri).fsPath)
     let currline = doc.getline(position.line, true)
     let { input, col, line, colnr } = context.option
     let character = characterIndex(line, col)
@@ -170,12 +236,17 @@ export class ProviderManager implements CompletionItemProvider {
     let res: CompletionItem[] = []
     let noneWords = before_content.endsWith(' ') ? '' : before_content.match(/\W*$/)[0]
     let contextPrefixes: string[] = []
+    let syntaxNames: string[] | undefined
     const execContext = this.configuration.inspect('execContext').globalValue ?? false
     for (let snip of snippets) {
       if (!execContext && snip.context) continue
       if (snip.prefix === '') continue
       if (input.length == 0 && (!snip.special || !before_content.endsWith(snip.special))) continue
       if (contextPrefixes.indexOf(snip.prefix) !== -1) continue
+      if (snip.syntax) {
+        if (!syntaxNames) syntaxNames = await getSyntaxNames(doc, position)
+        if (!matchSyntax(snip.syntax, syntaxNames)) continue
+      }
       let contentBefore = before_content
       if (snip.context) {
         let provider = this.providers.get(snip.provider)
@@ -196,6 +267,7 @@ export class ProviderManager implements CompletionItemProvider {
         label: snip.prefix,
         kind: CompletionItemKind.Snippet,
         filterText: snip.prefix,
+        sortText: usageSortText(snip.filepath, snip.lnum, snip.prefix),
         detail: snip.description,
         insertTextFormat: InsertTextFormat.Snippet
       }
@@ -232,7 +304,9 @@ export class ProviderManager implements CompletionItemProvider {
           removeWhiteSpace: formatOptions.removeWhiteSpace
         }
       }
-      if (snip.regex) {
+      if (snip.originRegex) {
+        // regex matched by python is not completed
+        if (!snip.regex) continue
         if (!input.length || snip.prefix && input[0] != snip.prefix[0]) continue
         let content = before_content + snip.prefix
         let ms = content.match(snip.regex)
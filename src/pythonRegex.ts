@@ -0,0 +1,135 @@
+export interface ConvertedRegex {
+  source: string
+  flags: string
+}
+
+// inline flags of python regex that have javascript equivalent
+const flagsMap: { [key: string]: string } = {
+  i: 'i',
+  m: 'm',
+  s: 's'
+}
+
+/**
+ * Global inline flags like `(?ix)`, python allows them anywhere in pattern.
+ */
+function getInlineFlags(pattern: string): string {
+  let res = ''
+  let re = /(?<!\\)\(\?([aiLmsux]+)\)/g
+  let ms: RegExpExecArray | null
+  while ((ms = re.exec(pattern)) !== null) {
+    res += ms[1]
+  }
+  return res
+}
+
+/**
+ * Convert python regex to javascript regex, verbose mode, inline flags,
+ * comments, `\A`, `\Z`, `\z` and named groups are translated, throw error when
+ * pattern can't be translated, including conditional group, scoped inline
+ * flags, atomic group and possessive quantifier.
+ */
+export function convertRegex(pattern: string): ConvertedRegex {
+  let inlineFlags = getInlineFlags(pattern)
+  let verbose = inlineFlags.includes('x')
+  let flags = new Set<string>()
+  for (let c of inlineFlags) {
+    if (flagsMap[c]) flags.add(flagsMap[c])
+  }
+  let res = ''
+  let inClass = false
+  // last emitted token is quantifier
+  let quantified = false
+  let i = 0
+  while (i < pattern.length) {
+    let ch = pattern[i]
+    if (ch == '\\') {
+      let next = pattern[i + 1] ?? ''
+      i += 2
+      quantified = false
+      if (!inClass && next == 'A') {
+        res += '^'
+      } else if (!inClass && (next == 'Z' || next == 'z')) {
+        res += '$'
+      } else {
+        res += '\\' + next
+      }
+      continue
+    }
+    if (inClass) {
+      if (ch == ']') inClass = false
+      res += ch
+      i++
+      continue
+    }
+    if (ch == '[') {
+      inClass = true
+      quantified = false
+      res += '['
+      i++
+      if (pattern[i] == '^') {
+        res += '^'
+        i++
+      }
+      // leading ] is literal in python
+      if (pattern[i] == ']') {
+        res += '\\]'
+        i++
+      }
+      continue
+    }
+    if (verbose && /\s/.test(ch)) {
+      i++
+      continue
+    }
+    if (verbose && ch == '#') {
+      while (i < pattern.length && pattern[i] != '\n') i++
+      continue
+    }
+    if (ch == '(' && pattern[i + 1] == '?') {
+      let rest = pattern.slice(i)
+      let ms: RegExpMatchArray | null
+      if ((ms = rest.match(/^\(\?#[^)]*\)/)) || (ms = rest.match(/^\(\?[aiLmsux]+\)/))) {
+        i += ms[0].length
+        continue
+      }
+      quantified = false
+      if ((ms = rest.match(/^\(\?P<(\w+)>/))) {
+        res += `(?<${ms[1]}>`
+        i += ms[0].length
+        continue
+      }
+      if ((ms = rest.match(/^\(\?P=(\w+)\)/))) {
+        res += `\\k<${ms[1]}>`
+        i += ms[0].length
+        continue
+      }
+      if (rest.startsWith('(?(')) throw new Error('conditional group (?(id/name)yes|no) not supported')
+      if (rest.startsWith('(?>')) throw new Error('atomic group (?>...) not supported')
+      if (/^\(\?[aiLmsux]*-?[imsx]*:/.test(rest) && !rest.startsWith('(?:')) {
+        throw new Error('scoped inline flags not supported')
+      }
+      res += '(?'
+      i += 2
+      continue
+    }
+    if (ch == '+' && quantified) throw new Error('possessive quantifier not supported')
+    if (ch == '?' && quantified) {
+      // lazy quantifier
+      quantified = false
+    } else {
+      let ms = pattern.slice(i).match(/^(?:[*+?]|\{(?:\d+(?:,\d*)?|,\d+)\})/)
+      if (ms) {
+        // {,n} means {0,n} in python
+        res += ms[0].replace(/^\{,/, '{0,')
+        i += ms[0].length
+        quantified = true
+        continue
+      }
+      quantified = false
+    }
+    res += ch
+    i++
+  }
+  return { source: res, flags: Array.from(flags).sort().join('') }
+}
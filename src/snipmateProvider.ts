@@ -7,15 +7,18 @@ import fs from 'fs'
 import path from 'path'
 import readline from 'readline'
 import BaseProvider from './baseProvider'
+import { ParseCache } from './cache'
+import { matchTrigger } from './matcher'
 import { FileItem, SnipmateConfig, SnipmateFile, Snippet, SnippetEdit, TriggerKind } from './types'
-import { readdirAsync, sameFile, statAsync } from './util'
+import { getSnippetFiletype, readdirAsync, sameFile, statAsync } from './util'
+import { FileChangeKind, FileWatcher } from './watcher'
 
 interface SnippetResult {
   extends: string[]
   snippets: Snippet[]
 }
 
-function convertBody(body: string): string {
+export function convertBody(body: string): string {
   return body.replace(/`(.*?)(?<!\\)`/g, (_, p1) => {
     if (p1.startsWith('Filename(')) {
       p1 = p1.replace(/^Filename/, 'vim_snippets#Filename')
@@ -28,10 +31,15 @@ export class SnipmateProvider extends BaseProvider {
   private fileItems: FileItem[] = []
   private snippetFiles: SnipmateFile[] = []
   private loadedLanguageIds: Set<string> = new Set()
+  private watcher: FileWatcher | undefined
+  private scannedDirectories: Set<string> = new Set()
+  // directory of project snippets to workspace folder
+  private projectDirectories: Map<string, string> = new Map()
   constructor(
     channel: OutputChannel,
     protected config: SnipmateConfig,
-    private subscriptions: Disposable[]
+    private subscriptions: Disposable[],
+    private cache?: ParseCache
   ) {
     super(config, channel)
     workspace.onDidSaveTextDocument(async doc => {
@@ -39,13 +47,54 @@ export class SnipmateProvider extends BaseProvider {
       if (uri.scheme != 'file') return
       let filepath = uri.fsPath
       if (!fs.existsSync(filepath)) return
-      let idx = this.snippetFiles.findIndex(s => sameFile(s.filepath, filepath))
+      if (this.snippetFiles.some(s => sameFile(s.filepath, filepath))) {
+        await this.onFileChange(filepath, 'change')
+      }
+    }, null, this.subscriptions)
+    if (config.watch) {
+      this.watcher = new FileWatcher(['.snippets'], this.onFileChange.bind(this), e => {
+        this.error(`Error on watch snippet files: ${e.message}`)
+      })
+      this.subscriptions.push(this.watcher)
+    }
+  }
+
+  /**
+   * Reload, add or remove snippets of changed snippet file.
+   */
+  public async onFileChange(filepath: string, kind: FileChangeKind): Promise<void> {
+    let idx = this.snippetFiles.findIndex(s => sameFile(s.filepath, filepath))
+    if (kind == 'delete') {
+      this.fileItems = this.fileItems.filter(o => !sameFile(o.filepath, filepath))
       if (idx !== -1) {
-        let filetype = this.snippetFiles[idx].filetype
         this.snippetFiles.splice(idx, 1)
-        await this.loadSnippetsFromFile(filetype, filepath)
+        this.info(`Removed snipmate snippets of deleted file: ${filepath}`)
       }
-    }, null, this.subscriptions)
+      return
+    }
+    if (idx !== -1) {
+      let snippetFile = this.snippetFiles[idx]
+      let stat = await statAsync(filepath)
+      if (stat && stat.mtimeMs === snippetFile.mtime) return
+      this.snippetFiles.splice(idx, 1)
+      await this.loadSnippetsFromFile(snippetFile.filetype, filepath)
+      return
+    }
+    if (this.fileItems.some(o => sameFile(o.filepath, filepath))) return
+    let dir = path.dirname(filepath)
+    let item: FileItem
+    if (this.scannedDirectories.has(dir)) {
+      item = { filepath, directory: dir, filetype: path.basename(filepath, '.snippets').split('-', 2)[0] }
+    } else if (this.scannedDirectories.has(path.dirname(dir))) {
+      item = { filepath, directory: path.dirname(dir), filetype: path.basename(dir) }
+    } else {
+      return
+    }
+    if (this.loadedLanguageIds.has(item.filetype)) {
+      await this.loadSnippetsFromFile(item.filetype, item.filepath)
+    } else {
+      this.fileItems.push(item)
+    }
   }
 
   public async init(): Promise<void> {
@@ -66,6 +115,56 @@ export class SnipmateProvider extends BaseProvider {
         }
       }
     }, null, this.subscriptions)
+    if (this.config.projectSnippets) {
+      for (let folder of workspace.workspaceFolders) {
+        await this.loadProjectSnippets(Uri.parse(folder.uri).fsPath)
+      }
+      workspace.onDidChangeWorkspaceFolders(async e => {
+        for (let folder of e.removed) {
+          this.removeProjectSnippets(Uri.parse(folder.uri).fsPath)
+        }
+        for (let folder of e.added) {
+          await this.loadProjectSnippets(Uri.parse(folder.uri).fsPath)
+        }
+      }, null, this.subscriptions)
+    }
+  }
+
+  /**
+   * Load snippets from snippets folder of workspace folder.
+   */
+  private async loadProjectSnippets(folder: string): Promise<void> {
+    let directory = path.join(folder, 'snippets')
+    this.projectDirectories.set(directory, folder)
+    let items = await this.getSnippetFileItems(directory)
+    items = items.filter(item => !this.fileItems.some(o => sameFile(o.filepath, item.filepath)))
+    if (items.length == 0) return
+    this.info(`Found snipmate snippets of workspace folder: ${directory}`)
+    this.fileItems.push(...items)
+    for (let item of items) {
+      if (this.loadedLanguageIds.has(item.filetype)) {
+        await this.loadSnippetsFromFile(item.filetype, item.filepath)
+      }
+    }
+  }
+
+  private removeProjectSnippets(folder: string): void {
+    let directory = path.join(folder, 'snippets')
+    if (!this.projectDirectories.delete(directory)) return
+    this.scannedDirectories.delete(directory)
+    for (let dir of this.watcher?.directories ?? []) {
+      if (dir == directory || dir.startsWith(directory + path.sep)) this.watcher.unwatch(dir)
+    }
+    this.fileItems = this.fileItems.filter(o => o.directory != directory)
+    this.snippetFiles = this.snippetFiles.filter(o => !o.filepath.startsWith(directory + path.sep))
+    this.info(`Removed snipmate snippets of workspace folder: ${directory}`)
+  }
+
+  private getProjectFolder(filepath: string): string | undefined {
+    for (let [dir, folder] of this.projectDirectories) {
+      if (filepath.startsWith(dir + path.sep)) return folder
+    }
+    return undefined
   }
 
   public async loadSnippetsByFiletype(filetype: string): Promise<void> {
@@ -86,9 +185,20 @@ export class SnipmateProvider extends BaseProvider {
     idx = this.fileItems.findIndex(o => o.filepath == filepath)
     if (idx !== -1) this.fileItems.splice(idx, 1)
     if (this.isIgnored(filepath)) return
-    let res = await this.parseSnippetsFile(filetype, filepath)
+    let stat = await statAsync(filepath)
+    let res = this.cache?.get<SnippetResult>('snipmate', filepath, stat)
+    if (!res) {
+      res = await this.parseSnippetsFile(filetype, filepath)
+      this.cache?.set('snipmate', filepath, stat, res)
+    }
     if (this.snippetFiles.findIndex(o => sameFile(o.filepath, filepath)) == -1) {
-      this.snippetFiles.push({ filepath, filetype, snippets: res.snippets })
+      let snippets = res.snippets
+      let folder = this.getProjectFolder(filepath)
+      if (folder) {
+        let priority = -1 + (this.config.projectPriority ?? 0)
+        snippets = snippets.map(s => Object.assign({}, s, { priority, folder }))
+      }
+      this.snippetFiles.push({ filepath, filetype, snippets, mtime: stat?.mtimeMs })
       this.info(`Loaded ${res.snippets.length} ${filetype} snipmate snippets from: ${filepath}`)
       if (res.extends.length) {
         let fts = res.extends
@@ -118,6 +228,8 @@ export class SnipmateProvider extends BaseProvider {
     let lines: string[] = []
     let prefix = ''
     let description = ''
+    let autoTrigger = false
+    let start = 0
     rl.on('line', line => {
       lnum += 1
       if (line.startsWith('#')) return
@@ -126,30 +238,34 @@ export class SnipmateProvider extends BaseProvider {
         if (ft) extendsFiletypes.push(ft)
         return
       }
-      if (line.startsWith('snippet')) {
+      // autosnippet is expanded on type
+      if (line.startsWith('snippet') || line.startsWith('autosnippet')) {
         line = line.replace(/\s*$/, '')
         if (lines.length && prefix) {
           let body = lines.join('\n').replace(/\s+$/, '')
           res.push({
             filepath,
             filetype,
-            lnum: lnum - lines.length - 1,
+            lnum: start,
             body: convertBody(body),
             prefix,
             description,
             triggerKind: TriggerKind.WordBoundary,
+            autoTrigger: autoTrigger ? true : undefined,
             provider: 'snipmate'
           })
           lines = []
         }
-        let ms = line.match(/^snippet\s+(\S+)(?:\s(.+))?$/)
+        let ms = line.match(/^(auto)?snippet\s+(\S+)(?:\s(.+))?$/)
         if (!ms) {
           prefix = ''
           this.error(`Broken line on ${filepath}:${lnum}`)
           return
         }
-        prefix = ms[1]
-        description = ms[2] || ''
+        autoTrigger = ms[1] != null
+        prefix = ms[2]
+        description = ms[3] || ''
+        start = lnum - 1
         return
       }
       if (prefix) {
@@ -166,12 +282,13 @@ export class SnipmateProvider extends BaseProvider {
           let body = lines.join('\n').replace(/\s+$/, '')
           res.push({
             filepath,
-            lnum: lnum - lines.length - 1,
+            lnum: start,
             filetype,
             body: convertBody(body),
             prefix,
             description,
-            triggerKind: TriggerKind.WordBoundary
+            triggerKind: TriggerKind.WordBoundary,
+            autoTrigger: autoTrigger ? true : undefined
           })
         }
         this.trace('snipmate snippets', res)
@@ -181,21 +298,17 @@ export class SnipmateProvider extends BaseProvider {
   }
 
   public async getTriggerSnippets(document: Document, position: Position, autoTrigger: boolean): Promise<SnippetEdit[]> {
-    if (autoTrigger) return []
     let snippets = this.getDocumentSnippets(document)
     let line = document.getline(position.line)
     line = line.slice(0, position.character)
     if (!line) return []
-    snippets = snippets.filter(s => {
-      let { prefix } = s
-      if (!line.endsWith(prefix)) return false
-      let pre = line.slice(0, line.length - prefix.length)
-      return pre.length == 0 || !document.isWord(pre[pre.length - 1])
-    })
+    let filetype = getSnippetFiletype(document)
     let edits: SnippetEdit[] = []
     for (let s of snippets) {
-      let character = position.character - s.prefix.length
-      let range = Range.create(position.line, character, position.line, position.character)
+      if (autoTrigger && !this.isAutoTrigger(s, filetype)) continue
+      let match = matchTrigger(s, line, ch => document.isWord(ch))
+      if (!match) continue
+      let range = Range.create(position.line, match.character, position.line, position.character)
       edits.push({
         prefix: s.prefix,
         description: s.description,
@@ -203,7 +316,7 @@ export class SnipmateProvider extends BaseProvider {
         lnum: s.lnum,
         range,
         newText: s.body,
-        priority: -1
+        priority: s.priority ?? -1
       })
     }
     return edits
@@ -256,6 +369,9 @@ export class SnipmateProvider extends BaseProvider {
     let res: FileItem[] = []
     let stat = await statAsync(directory)
     if (stat && stat.isDirectory()) {
+      this.scannedDirectories.add(directory)
+      // filetype sub directories could be created later
+      this.watcher?.watch(directory, 1)
       let files = await readdirAsync(directory)
       if (files.length) {
         for (let f of files) {
@@ -267,6 +383,7 @@ export class SnipmateProvider extends BaseProvider {
           } else {
             let stat = await statAsync(file)
             if (stat && stat.isDirectory()) {
+              this.watcher?.watch(file)
               let files = await readdirAsync(file)
               for (let filename of files) {
                 if (filename.endsWith('.snippets')) {
@@ -0,0 +1,225 @@
+import { Position, Uri } from 'coc.nvim'
+import { applyEdits, findNodeAtLocation, FormattingOptions, getNodeValue, modify, Node, parseTree } from 'jsonc-parser'
+import { getTriggerText, headTail } from './util'
+
+export type SnippetFileFormat = 'ultisnips' | 'snipmate' | 'json'
+
+// directives of UltiSnips that only apply to the following snippet
+const snippetDirectives = ['context', 'pre_expand', 'post_expand', 'post_jump', 'syntax']
+const formattingOptions: FormattingOptions = { insertSpaces: true, tabSize: 2, eol: '\n' }
+
+export interface SnippetBlock {
+  kind: 'snippet' | 'global'
+  // header line and last line of block, 0 based
+  start: number
+  end: number
+  // trigger of snippet, key of JSON snippet
+  name: string
+  description: string
+  body: string
+  // options of UltiSnips snippet
+  options?: string
+  // prefixes of JSON snippet
+  prefixes?: string[]
+}
+
+/**
+ * Snipmate files use the same extension, their snippets have no endsnippet.
+ */
+export function isUltiSnipsFile(uri: string, lines: string[]): boolean {
+  if (Uri.parse(uri).fsPath.split(/[\\/]/).some(s => s.toLowerCase() == 'ultisnips')) return true
+  return lines.some(line => /^(endsnippet|endglobal)\b/.test(line))
+}
+
+export function getSnippetFileFormat(uri: string, content: string): SnippetFileFormat | undefined {
+  if (uri.endsWith('.json') || uri.endsWith('.code-snippets')) return 'json'
+  if (!uri.endsWith('.snippets')) return undefined
+  return isUltiSnipsFile(uri, content.split(/\r?\n/)) ? 'ultisnips' : 'snipmate'
+}
+
+/**
+ * Create function that convert offset of content to position.
+ */
+export function createPositionAt(content: string): (offset: number) => Position {
+  let offsets = [0]
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] == '\n') offsets.push(i + 1)
+  }
+  return (offset: number): Position => {
+    let low = 0
+    let high = offsets.length - 1
+    while (low < high) {
+      let mid = Math.ceil((low + high) / 2)
+      if (offsets[mid] > offset) {
+        high = mid - 1
+      } else {
+        low = mid
+      }
+    }
+    return Position.create(low, offset - offsets[low])
+  }
+}
+
+/**
+ * Get snippet and global blocks of snippets file, unclosed block ends at the
+ * last line.
+ */
+export function getSnippetBlocks(format: SnippetFileFormat, content: string): SnippetBlock[] {
+  if (format == 'json') return getJsonBlocks(content)
+  let lines = content.split(/\r?\n/)
+  return format == 'ultisnips' ? getUltiSnipsBlocks(lines) : getSnipmateBlocks(lines)
+}
+
+function getUltiSnipsBlocks(lines: string[]): SnippetBlock[] {
+  let blocks: SnippetBlock[] = []
+  let block: SnippetBlock | undefined
+  let body: string[] = []
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i]
+    let [head, tail] = headTail(line)
+    if (block) {
+      if ((head == 'endsnippet' && block.kind == 'snippet') || (head == 'endglobal' && block.kind == 'global')) {
+        blocks.push(Object.assign(block, { end: i, body: body.join('\n') }))
+        block = undefined
+      } else {
+        body.push(line)
+      }
+      continue
+    }
+    if (head == 'snippet' && tail.length > 0) {
+      let ms = tail.match(/^(.+?)(?:\s+(?:"(.*?)")?(?:\s+"(.*?)")?(?:\s+(\w+))?)?\s*$/)
+      let options = ms[4] || ''
+      block = { kind: 'snippet', start: i, end: i, name: getTriggerText(ms[1], options.includes('r')), description: ms[2] || '', body: '', options }
+      body = []
+    } else if (head == 'global') {
+      block = { kind: 'global', start: i, end: i, name: line.trim(), description: '', body: '' }
+      body = []
+    }
+  }
+  if (block) blocks.push(Object.assign(block, { end: lines.length - 1, body: body.join('\n') }))
+  return blocks
+}
+
+function getSnipmateBlocks(lines: string[]): SnippetBlock[] {
+  let blocks: SnippetBlock[] = []
+  let block: SnippetBlock | undefined
+  let body: string[] = []
+  const finish = () => {
+    if (!block) return
+    // trailing empty lines are not part of block
+    while (body.length && body[body.length - 1].trim() == '') body.pop()
+    blocks.push(Object.assign(block, { end: block.start + body.length, body: body.join('\n') }))
+    block = undefined
+  }
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i]
+    if (block && (line.startsWith('\t') || line.trim() == '')) {
+      body.push(line.startsWith('\t') ? line.slice(1) : line)
+      continue
+    }
+    finish()
+    let ms = line.replace(/\s*$/, '').match(/^(?:auto)?snippet\s+(\S+)(?:\s(.+))?$/)
+    if (ms) {
+      block = { kind: 'snippet', start: i, end: i, name: ms[1], description: ms[2] || '', body: '' }
+      body = []
+    }
+  }
+  finish()
+  return blocks
+}
+
+function stringValues(node: Node | undefined): string[] {
+  if (!node) return []
+  if (node.type == 'string') return [node.value]
+  if (node.type == 'array') return node.children.filter(o => o.type == 'string').map(o => o.value)
+  return []
+}
+
+function getJsonBlocks(content: string): SnippetBlock[] {
+  let root = parseTree(content, [], { allowTrailingComma: true })
+  if (!root || root.type != 'object') return []
+  let positionAt = createPositionAt(content)
+  let blocks: SnippetBlock[] = []
+  for (let property of root.children) {
+    let [keyNode, valueNode] = property.children
+    if (!valueNode || valueNode.type != 'object') continue
+    let props: Map<string, Node> = new Map()
+    for (let child of valueNode.children) {
+      if (child.children[1]) props.set(child.children[0].value, child.children[1])
+    }
+    blocks.push({
+      kind: 'snippet',
+      start: positionAt(keyNode.offset).line,
+      end: positionAt(property.offset + property.length).line,
+      name: keyNode.value,
+      description: stringValues(props.get('description')).join('\n'),
+      body: stringValues(props.get('body')).join('\n'),
+      prefixes: stringValues(props.get('prefix'))
+    })
+  }
+  return blocks
+}
+
+function findBlock(format: SnippetFileFormat, content: string, lnum: number): SnippetBlock | undefined {
+  return getSnippetBlocks(format, content).find(o => o.kind == 'snippet' && o.start == lnum)
+}
+
+/**
+ * First and last line of snippet block, directives before header of UltiSnips
+ * snippet are included.
+ */
+function getSnippetLines(format: SnippetFileFormat, lines: string[], block: SnippetBlock): [number, number] {
+  let start = block.start
+  if (format == 'ultisnips') {
+    while (start > 0 && snippetDirectives.includes(headTail(lines[start - 1])[0])) start--
+  }
+  return [start, block.end]
+}
+
+/**
+ * Remove snippet with header at lnum from content of snippets file, undefined
+ * when snippet not found.
+ */
+export function removeSnippet(format: SnippetFileFormat, content: string, lnum: number): string | undefined {
+  let block = findBlock(format, content, lnum)
+  if (!block) return undefined
+  if (format == 'json') return applyEdits(content, modify(content, [block.name], undefined, { formattingOptions }))
+  let eol = content.includes('\r\n') ? '\r\n' : '\n'
+  let lines = content.split(/\r?\n/)
+  let [start, end] = getSnippetLines(format, lines, block)
+  lines.splice(start, end - start + 1)
+  // avoid blank lines left on both sides
+  if (lines[start] != null && lines[start].trim() == '' && (start == 0 || lines[start - 1].trim() == '')) {
+    lines.splice(start, 1)
+  }
+  return lines.join(eol)
+}
+
+/**
+ * Insert copy of snippet with header at lnum after it, JSON snippet is copied
+ * with number suffix like `name (2)`, header line of copy is returned.
+ */
+export function duplicateSnippet(format: SnippetFileFormat, content: string, lnum: number): { content: string, lnum: number } | undefined {
+  let block = findBlock(format, content, lnum)
+  if (!block) return undefined
+  if (format == 'json') {
+    let root = parseTree(content, [], { allowTrailingComma: true })
+    let node = findNodeAtLocation(root, [block.name])
+    let keys = new Set(root.children.map(o => o.children[0].value))
+    let key = block.name
+    for (let i = 2; keys.has(key); i++) {
+      key = `${block.name} (${i})`
+    }
+    // insert right after the original key
+    let getInsertionIndex = (properties: string[]) => properties.indexOf(block.name) + 1
+    let res = applyEdits(content, modify(content, [key], getNodeValue(node), { formattingOptions, getInsertionIndex }))
+    let p = JSON.stringify(key)
+    let idx = res.split(/\r?\n/).findIndex(line => line.trim().startsWith(p))
+    return { content: res, lnum: idx == -1 ? 0 : idx }
+  }
+  let eol = content.includes('\r\n') ? '\r\n' : '\n'
+  let lines = content.split(/\r?\n/)
+  let [start, end] = getSnippetLines(format, lines, block)
+  lines.splice(end + 1, 0, '', ...lines.slice(start, end + 1))
+  return { content: lines.join(eol), lnum: end + 2 + block.start - start }
+}
@@ -0,0 +1,125 @@
+import { Document, OutputChannel, Range, Uri, window, workspace, WorkspaceConfiguration } from 'coc.nvim'
+import fs from 'fs'
+import minimatch from 'minimatch'
+import { ProviderManager } from './provider'
+import { Snippet, TriggerKind } from './types'
+import { getSnippetFiletype, insertSnippetEdit, snippetToEdit } from './util'
+
+// trigger of UltiSnips snippet used as file template
+export const templateTrigger = '_template'
+
+export interface TemplateConfig {
+  // glob pattern of filepath relative to workspace folder
+  pattern: string
+  filetype?: string
+  // prefix of snippet used as template
+  prefix?: string
+  // body of template, used when prefix not exists
+  body?: string | string[]
+  description?: string
+}
+
+export function isTemplateSnippet(snippet: Snippet): boolean {
+  return snippet.isFileTemplate === true || snippet.prefix == templateTrigger
+}
+
+export function matchTemplate(config: TemplateConfig, filetype: string, relativePath: string): boolean {
+  if (!config.pattern || (config.filetype && config.filetype != filetype)) return false
+  return minimatch(relativePath, config.pattern, { dot: true, matchBase: !config.pattern.includes('/') })
+}
+
+/**
+ * Templates of file, templates from configuration come first.
+ */
+export function getTemplates(snippets: Snippet[], configs: TemplateConfig[], filetype: string, relativePath: string): Snippet[] {
+  let res: Snippet[] = []
+  for (let config of configs) {
+    if (!matchTemplate(config, filetype, relativePath)) continue
+    if (config.prefix) {
+      let snippet = snippets.find(o => o.prefix == config.prefix)
+      if (snippet && !res.includes(snippet)) res.push(snippet)
+    } else if (config.body != null) {
+      res.push({
+        filepath: '',
+        lnum: 0,
+        prefix: '',
+        body: Array.isArray(config.body) ? config.body.join('\n') : config.body,
+        description: config.description ?? config.pattern,
+        triggerKind: TriggerKind.WordBoundary,
+        filetype,
+        provider: 'snippets'
+      })
+    }
+  }
+  for (let snippet of snippets) {
+    if (isTemplateSnippet(snippet) && !res.includes(snippet)) res.push(snippet)
+  }
+  return res
+}
+
+/**
+ * Expand template snippet into new created empty files.
+ */
+export class FileTemplates {
+  constructor(
+    private manager: ProviderManager,
+    private channel: OutputChannel,
+    private configuration: WorkspaceConfiguration
+  ) {
+  }
+
+  private get configs(): TemplateConfig[] {
+    let configs = this.configuration.get<TemplateConfig[]>('templates', [])
+    return Array.isArray(configs) ? configs : []
+  }
+
+  public async getDocumentTemplates(doc: Document): Promise<Snippet[]> {
+    let filetype = getSnippetFiletype(doc)
+    await this.manager.loadSnippetsByFiletype(filetype)
+    let filepath = Uri.parse(doc.uri).fsPath
+    let snippets = this.manager.getSnippets(filetype, filepath)
+    return getTemplates(snippets, this.configs, filetype, workspace.asRelativePath(filepath))
+  }
+
+  /**
+   * Insert the first template when document is a new and empty file.
+   */
+  public async onNewDocument(doc: Document): Promise<void> {
+    if (Uri.parse(doc.uri).scheme != 'file' || !isEmpty(doc)) return
+    if (fs.existsSync(Uri.parse(doc.uri).fsPath)) return
+    let templates = await this.getDocumentTemplates(doc)
+    if (templates.length == 0) return
+    let bufnr = await workspace.nvim.call('bufnr', ['%']) as number
+    if (bufnr != doc.bufnr || !isEmpty(doc)) return
+    this.channel.appendLine(`[Info ${(new Date()).toLocaleTimeString()}] Insert template ${templates[0].description} to ${doc.uri}`)
+    await insertTemplate(templates[0])
+  }
+
+  /**
+   * Insert template to current buffer, pick from templates when more than one.
+   */
+  public async insert(doc: Document): Promise<boolean> {
+    let templates = await this.getDocumentTemplates(doc)
+    if (templates.length == 0) {
+      window.showWarningMessage(`No template found for ${doc.uri}`)
+      return false
+    }
+    let idx = 0
+    if (templates.length > 1) {
+      idx = await window.showMenuPicker(templates.map(o => o.description || o.prefix || o.filepath), { title: 'choose template' })
+      if (idx == -1) return false
+    }
+    await insertTemplate(templates[idx])
+    return true
+  }
+}
+
+function isEmpty(doc: Document): boolean {
+  let lines = doc.textDocument.lines
+  return lines.length == 0 || (lines.length == 1 && lines[0] == '')
+}
+
+async function insertTemplate(snippet: Snippet): Promise<void> {
+  let pos = await window.getCursorPosition()
+  await insertSnippetEdit(snippetToEdit(snippet, Range.create(pos, pos)))
+}
@@ -3,8 +3,11 @@ import fs from 'fs'
 import { parse, ParseError } from 'jsonc-parser'
 import path from 'path'
 import BaseProvider from './baseProvider'
+import { ParseCache } from './cache'
+import { matchTrigger } from './matcher'
 import { Snippet, SnippetEdit, TextmateConfig, TriggerKind } from './types'
-import { clearExtensionState, clearFolderState, languageIdFromComments, normalizeFilePath, omit, sameFile, statAsync } from './util'
+import { clearExtensionState, clearFolderState, getSnippetFiletype, isParentFolder, languageIdFromComments, normalizeFilePath, omit, parseSyntax, sameFile, statAsync } from './util'
+import { FileChangeKind, FileWatcher } from './watcher'
 
 export interface ISnippetPluginContribution {
   lnum: number
@@ -12,6 +15,9 @@ export interface ISnippetPluginContribution {
   prefix: string | string[]
   body: string | string[]
   description: string | string[]
+  isFileTemplate?: boolean
+  syntax?: string | string[]
+  autotrigger?: boolean
 }
 
 export interface SnippetItem {
@@ -23,6 +29,11 @@ export interface SnippetCache {
   [language: string]: Snippet[]
 }
 
+interface ParsedSnippetFile {
+  snippets: ISnippetPluginContribution[]
+  commentLanguageId?: string
+}
+
 interface KeyToSnippet {
   [key: string]: ISnippetPluginContribution
 }
@@ -42,6 +53,10 @@ export interface SnippetDef {
    */
   readonly filetypes: string[]
   readonly priority: number
+  readonly folder?: string
+  readonly isFileTemplate?: boolean
+  readonly syntax?: string[]
+  readonly autoTrigger?: boolean
   extensionId?: string
 }
 
@@ -51,13 +66,53 @@ export class TextmateProvider extends BaseProvider {
   private loadedLanguageIds: Set<string> = new Set()
   private definitions: Map<string, SnippetItem[]> = new Map()
   private loadedRoots: Set<string> = new Set()
+  private projectFolders: Set<string> = new Set()
+  private watcher: FileWatcher | undefined
 
   constructor(
     channel: OutputChannel,
     protected config: TextmateConfig,
-    private subscriptions: Disposable[]
+    private subscriptions: Disposable[],
+    private cache?: ParseCache
   ) {
     super(config, channel)
+    if (config.watch) {
+      this.watcher = new FileWatcher(['.json', '.code-snippets'], this.onFileChange.bind(this), e => {
+        this.error(`Error on watch snippet files: ${e.message}`)
+      })
+      this.subscriptions.push(this.watcher)
+    }
+  }
+
+  /**
+   * Reload, add or remove snippets of changed file inside snippets roots.
+   */
+  public async onFileChange(filepath: string, kind: FileChangeKind): Promise<void> {
+    let items: SnippetItem[] = this.definitions.get('') ?? []
+    let item = items.find(o => sameFile(o.filepath, filepath))
+    if (this.isLoaded(filepath)) {
+      for (let file of this.loadedFiles) {
+        if (sameFile(file, filepath)) this.loadedFiles.delete(file)
+      }
+      this.loadedSnippets = this.loadedSnippets.filter(o => !sameFile(o.filepath, filepath))
+      this.info(`Removed textmate snippets of ${kind == 'delete' ? 'deleted' : 'changed'} file: ${filepath}`)
+    }
+    if (kind == 'delete') {
+      if (item) this.definitions.set('', items.filter(o => o !== item))
+      return
+    }
+    if (filepath.endsWith('.code-snippets')) {
+      await this.loadSnippetsFromFile(filepath, undefined, undefined)
+      return
+    }
+    if (!item) {
+      item = { languageIds: [path.basename(filepath, '.json')], filepath }
+      items.push(item)
+      this.definitions.set('', items)
+    }
+    if (item.languageIds.some(id => this.loadedLanguageIds.has(id))) {
+      await this.loadSnippetsFromFile(item.filepath, item.languageIds, undefined)
+    }
   }
 
   public async init(): Promise<void> {
@@ -99,6 +154,8 @@ export class TextmateProvider extends BaseProvider {
       workspace.onDidChangeWorkspaceFolders(e => {
         e.removed.forEach(folder => {
           let fsPath = Uri.parse(folder.uri).fsPath
+          this.watcher?.unwatch(normalizeFilePath(path.join(fsPath, '.vscode')))
+          this.projectFolders.delete(fsPath)
           this.loadedSnippets = clearFolderState(this.loadedFiles, this.loadedRoots, this.loadedSnippets, fsPath)
         })
         e.added.forEach(folder => {
@@ -111,9 +168,17 @@ export class TextmateProvider extends BaseProvider {
 
   private async loadFromWorkspace(fsPath: string): Promise<void> {
     let root = path.join(fsPath, '.vscode')
+    this.projectFolders.add(fsPath)
     await this.loadDefinitionFromRoot(root, false)
   }
 
+  private getProjectFolder(filepath: string): string | undefined {
+    for (let folder of this.projectFolders) {
+      if (isParentFolder(path.join(folder, '.vscode'), filepath)) return folder
+    }
+    return undefined
+  }
+
   public async loadSnippetsByFiletype(languageId: string): Promise<void> {
     if (this.loadedLanguageIds.has(languageId)) return
     let filetypes = this.getFiletypes(languageId)
@@ -144,32 +209,31 @@ export class TextmateProvider extends BaseProvider {
   }
 
   public async getTriggerSnippets(document: Document, position: Position, autoTrigger?: boolean): Promise<SnippetEdit[]> {
-    if (autoTrigger) return []
     let line = document.getline(position.line)
     line = line.slice(0, position.character)
     let snippets = this.getDocumentSnippets(document)
     if (!snippets || !snippets.length) return []
+    let filetype = getSnippetFiletype(document)
     let edits: SnippetEdit[] = []
     for (let snip of snippets) {
-      let { prefix } = snip
-      if (!line.endsWith(prefix)) continue
-      let pre = line.slice(0, line.length - prefix.length)
-      // not allowed after word
-      if (pre.length && /\w/.test(pre[pre.length - 1])) continue
+      if (autoTrigger && !this.isAutoTrigger(snip, filetype)) continue
+      let match = matchTrigger(snip, line, ch => document.isWord(ch))
+      if (!match) continue
       edits.push({
-        prefix,
-        range: Range.create(position.line, position.character - prefix.length, position.line, position.character),
+        prefix: snip.prefix,
+        range: Range.create(position.line, match.character, position.line, position.character),
         newText: snip.body,
         location: snip.filepath,
         lnum: snip.lnum,
         description: snip.description,
-        priority: snip.priority ?? -1
+        priority: snip.priority ?? -1,
+        syntax: snip.syntax
       })
     }
     return edits
   }
 
-  public getSnippets(filetype: string): Snippet[] {
+  public getAllSnippets(filetype: string): Snippet[] {
     let res: Snippet[] = []
     let filetypes: string[] = this.getFiletypes(filetype)
     filetypes.push('all')
@@ -194,8 +258,12 @@ export class TextmateProvider extends BaseProvider {
       }
       return 0
     })
+    return res
+  }
+
+  public getSnippets(filetype: string): Snippet[] {
     let filtered: Snippet[] = []
-    for (let item of res) {
+    for (let item of this.getAllSnippets(filetype)) {
       // consider the same by prefix & description
       if (!filtered.find(o => o.prefix == item.prefix && o.description == item.description)) {
         filtered.push(item)
@@ -242,6 +310,7 @@ export class TextmateProvider extends BaseProvider {
     root = normalizeFilePath(root)
     if (this.loadedRoots.has(root)) return
     this.loadedRoots.add(root)
+    this.watcher?.watch(root)
     let files = await fs.promises.readdir(root, 'utf8')
     files = files.filter(f => f.endsWith('.json') || f.endsWith('.code-snippets'))
     let items: SnippetItem[] = this.definitions.get('') ?? []
@@ -268,15 +337,25 @@ export class TextmateProvider extends BaseProvider {
 
   private async loadSnippetsFromFile(snippetFilePath: string, languageIds: string[] | undefined, extensionId: string | undefined): Promise<void> {
     if (this.isLoaded(snippetFilePath) || this.isIgnored(snippetFilePath)) return
-    let contents: string
-    try {
-      contents = await fs.promises.readFile(snippetFilePath, 'utf8')
-    } catch (e: any) {
-      this.error(`Error on readFile "${snippetFilePath}": ${e.message}`)
-      return
+    let stat = await statAsync(snippetFilePath)
+    let parsed = this.cache?.get<ParsedSnippetFile>('textmate', snippetFilePath, stat)
+    if (!parsed) {
+      let contents: string
+      try {
+        contents = await fs.promises.readFile(snippetFilePath, 'utf8')
+      } catch (e: any) {
+        this.error(`Error on readFile "${snippetFilePath}": ${e.message}`)
+        return
+      }
+      parsed = this.parseSnippetsText(snippetFilePath, contents)
+      if (parsed) this.cache?.set('textmate', snippetFilePath, stat, parsed)
     }
+    // loaded by another request during read
+    if (this.isLoaded(snippetFilePath)) return
+    this.loadedFiles.add(snippetFilePath)
+    if (!parsed) return
     try {
-      this.loadSnippetsFromText(snippetFilePath, extensionId, languageIds, contents)
+      this.loadParsedSnippets(snippetFilePath, extensionId, languageIds, parsed)
     } catch (e: any) {
       this.error(`Error on load snippets from "${snippetFilePath}": ${e.message}`, e.stack)
     }
@@ -291,15 +370,13 @@ export class TextmateProvider extends BaseProvider {
     return false
   }
 
-  private loadSnippetsFromText(filepath: string, extensionId: string | undefined, ids: string[] | undefined, contents: string): void {
+  private parseSnippetsText(filepath: string, contents: string): ParsedSnippetFile | undefined {
     let snippets: ISnippetPluginContribution[] = []
     let commentLanguageId: string
-    let isGlobal = isGlobalSnippet(filepath)
-    this.loadedFiles.add(filepath)
     try {
       let errors: ParseError[] = []
       let lines = contents.split(/\r?\n/)
-      if (isGlobal) commentLanguageId = languageIdFromComments(lines)
+      if (isGlobalSnippet(filepath)) commentLanguageId = languageIdFromComments(lines)
       let snippetObject = parse(contents, errors, { allowTrailingComma: true }) as KeyToSnippet
       if (errors.length) this.error(`Parse error of ${filepath}`, errors)
       if (snippetObject) {
@@ -312,11 +389,19 @@ export class TextmateProvider extends BaseProvider {
       }
     } catch (ex: any) {
       this.error(`Error on parse "${filepath}": ${ex.message}`, ex.stack)
-      return
+      return undefined
     }
+    return { snippets, commentLanguageId }
+  }
+
+  private loadParsedSnippets(filepath: string, extensionId: string | undefined, ids: string[] | undefined, parsed: ParsedSnippetFile): void {
+    let { snippets, commentLanguageId } = parsed
+    let isGlobal = isGlobalSnippet(filepath)
+    let folder = this.getProjectFolder(filepath)
     const normalizedSnippets: SnippetDef[] = []
     snippets.forEach((snip: ISnippetPluginContribution) => {
-      if (!snip.prefix) return
+      // file template could have no prefix
+      if (!snip.prefix && !snip.isFileTemplate) return
       let languageIds: string[]
       if (ids && ids.length > 0) {
         languageIds = ids
@@ -326,15 +411,19 @@ export class TextmateProvider extends BaseProvider {
       }
       if (!languageIds && isGlobal) languageIds = ['all']
       let obj: SnippetDef = {
-        prefixes: Array.isArray(snip.prefix) ? snip.prefix : [snip.prefix],
+        prefixes: Array.isArray(snip.prefix) ? snip.prefix : [snip.prefix ?? ''],
         filetypes: languageIds,
         extensionId,
         filepath,
         lnum: snip.lnum,
         body: typeof snip.body === 'string' ? snip.body : snip.body.join('\n'),
         description: getDescription(snip.description),
-        triggerKind: TriggerKind.WordBoundary,
-        priority: languageIds.includes('all') ? -60 : extensionId ? -2 : -1
+        triggerKind: TriggerKind.PrefixBoundary,
+        priority: languageIds.includes('all') ? -60 : extensionId ? -2 : -1,
+        folder,
+        isFileTemplate: snip.isFileTemplate === true ? true : undefined,
+        syntax: parseSyntax(snip.syntax),
+        autoTrigger: snip.autotrigger === true ? true : undefined
       }
       normalizedSnippets.push(obj)
       this.trace(`Snippet:`, obj)
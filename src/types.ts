@@ -2,13 +2,15 @@
 MIT License http://www.opensource.org/licenses/mit-license.php
 Author Qiming Zhao <chemzqm@gmail> (https://github.com/chemzqm)
 *******************************************************************/
-import { CompleteOption, CompletionContext, Range } from 'coc.nvim'
+import { CompleteOption, CompletionContext, Disposable, Document, Event, Position, Range } from 'coc.nvim'
 
 export enum TriggerKind {
   SpaceBefore,
   LineBegin,
   WordBoundary,
   InWord,
+  // word boundary, or prefix starts with none keyword character, like `.log` after word
+  PrefixBoundary,
 }
 
 export interface UltiSnippetOption {
@@ -39,6 +41,10 @@ export interface Config {
   extends: { [index: string]: string[] }
   excludes: string[]
   trace: boolean
+  // reload snippet files on change of file system
+  watch?: boolean
+  // prefixes triggered automatically by filetype
+  autoTriggerPrefixes?: { [filetype: string]: string[] }
 }
 
 export interface UltiSnipsConfig extends Config {
@@ -47,10 +53,18 @@ export interface UltiSnipsConfig extends Config {
   usePythonx: boolean
   pythonVersion: number
   directories: string[]
+  // load snippets from .vim/UltiSnips of workspace folders
+  projectSnippets?: boolean
+  // priority added to snippets of workspace folders
+  projectPriority?: number
 }
 
 export interface SnipmateConfig extends Config {
   author: string
+  // load snippets from snippets folder of workspace folders
+  projectSnippets?: boolean
+  // priority added to snippets of workspace folders
+  projectPriority?: number
 }
 
 export interface TextmateConfig extends Config {
@@ -62,6 +76,10 @@ export interface TextmateConfig extends Config {
 export interface MassCodeConfig extends Config {
   port: number
   host: string
+  // seconds between reload of snippets, 0 to disable
+  refreshInterval?: number
+  // folder name to filetypes of snippets inside
+  folderFiletypes?: Record<string, string | string[]>
 }
 
 export interface UltiSnipsFile {
@@ -72,12 +90,14 @@ export interface UltiSnipsFile {
   extendFiletypes: string[]
   pythonCode?: string
   clearsnippets?: number
+  mtime?: number
 }
 
 export interface SnipmateFile {
   filepath: string
   filetype: string
   snippets: Snippet[]
+  mtime?: number
 }
 
 export interface UltisnipFormatOption {
@@ -109,9 +129,17 @@ export interface Snippet {
   readonly context?: string
   readonly autoTrigger?: boolean
   readonly originRegex?: string
+  // originRegex can't be converted to javascript, matched by python re
+  readonly pythonRegex?: boolean
   // none word prefix of prefix
   readonly special?: string
   readonly actions?: UltiSnipsActions
+  // workspace folder of project snippet, only available for files inside
+  readonly folder?: string
+  // VSCode snippet used as file template
+  readonly isFileTemplate?: boolean
+  // patterns of syntax names at cursor, pattern starts with ! excludes syntax
+  readonly syntax?: string[]
   extensionId?: string
   provider?: string
 }
@@ -133,6 +161,7 @@ export interface SnippetEdit {
   context?: string
   actions?: UltiSnipsActions
   formatOptions?: UltisnipFormatOption
+  syntax?: string[]
 }
 
 export interface SnippetEditWithSource extends SnippetEdit {
@@ -150,3 +179,28 @@ export interface ReplaceItem {
   length: number
   newText: string
 }
+
+/**
+ * Provider of snippets registered by other extensions.
+ */
+export interface ExternalSnippetsProvider {
+  getSnippets(filetype: string): Snippet[]
+  getTriggerSnippets(document: Document, position: Position, autoTrigger?: boolean): SnippetEdit[] | Promise<SnippetEdit[]>
+  getSnippetFiles?(filetype: string): string[] | Promise<string[]>
+  resolveSnippetBody?(body: string): string | Promise<string>
+  checkContext?(context: string): any
+  init?(): Promise<void>
+  loadSnippetsByFiletype?(filetype: string): Promise<void>
+  // fired when snippets changed, cached snippets are dropped
+  onDidChangeSnippets?: Event<void>
+}
+
+export interface SnippetsAPI {
+  expandable: () => Promise<boolean>
+  registerProvider: (name: string, provider: ExternalSnippetsProvider) => Disposable
+  listSnippets: (filetype?: string) => Promise<Snippet[]>
+  getTriggerSnippets: (bufnr?: number, position?: Position) => Promise<SnippetEditWithSource[]>
+  // expand by prefix or location of snippet
+  expandSnippet: (target: string | { filepath: string, lnum: number }, range?: Range) => Promise<boolean>
+  resolveSnippet: (snippet: Snippet | string | { filepath: string, lnum: number }) => Promise<string | undefined>
+}
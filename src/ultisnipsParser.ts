@@ -4,9 +4,8 @@ Author Qiming Zhao <chemzqm@gmail> (https://github.com/chemzqm)
 *******************************************************************/
 import { OutputChannel } from 'coc.nvim'
 import fs from 'fs'
-import readline from 'readline'
 import { Snippet, TriggerKind, UltiSnipsFile } from './types'
-import { convertRegex, getRegexText, getTriggerText, headTail, trimQuote } from './util'
+import { getRegexText, getTriggerText, headTail, parseSyntax, trimQuote, tryCreateTriggerRegex } from './util'
 
 function fixFiletype(filetype: string): string {
   if (filetype === 'javascript_react') return 'javascriptreact'
@@ -25,11 +24,17 @@ export default class UltiSnipsParser {
     private trace = false) {
   }
 
-  public parseUltisnipsFile(filetype: string, filepath: string): Promise<Partial<UltiSnipsFile>> {
-    const rl = readline.createInterface({
-      input: fs.createReadStream(filepath, 'utf8'),
-      crlfDelay: Infinity
-    })
+  public async parseUltisnipsFile(filetype: string, filepath: string): Promise<Partial<UltiSnipsFile>> {
+    let content = await fs.promises.readFile(filepath, 'utf8')
+    return this.parseUltisnipsText(filetype, filepath, content)
+  }
+
+  /**
+   * Parse content of snippets file, lnum of snippet is the header line.
+   */
+  public parseUltisnipsText(filetype: string, filepath: string, content: string): Partial<UltiSnipsFile> {
+    let lines = content.split(/\r?\n/)
+    if (lines[lines.length - 1] === '') lines.pop()
     let actions: string[] = []
     let pycodes: string[] = []
     let snippets: Snippet[] = []
@@ -40,10 +45,11 @@ export default class UltiSnipsParser {
     let lnum = 0
     let clearsnippets = null
     let parsedContext = null
+    let parsedSyntax: string[] | undefined
     let extendFiletypes: string[] = []
-    rl.on('line', line => {
+    for (let line of lines) {
       lnum += 1
-      if (!block && (line.startsWith('#') || line.length == 0)) return
+      if (!block && (line.startsWith('#') || line.length == 0)) continue
       const [head, tail] = headTail(line)
       if (!block) {
         switch (head) {
@@ -71,19 +77,22 @@ export default class UltiSnipsParser {
           case 'context':
             parsedContext = tail.replace(/^"(.+)"$/, '$1')
             break
+          case 'syntax':
+            parsedSyntax = parseSyntax(trimQuote(tail.trim()))
+            break
           case 'snippet':
           case 'global':
             block = head
             first = tail
             break
         }
-        return
+        continue
       }
       if (head == 'endglobal' && block == 'global') {
         block = null
         pycodes.push(`# ${lnum - preLines.length}`, ...preLines)
         preLines = []
-        return
+        continue
       }
       if (head == 'endsnippet' && block == 'snippet') {
         block = null
@@ -98,9 +107,8 @@ export default class UltiSnipsParser {
           let triggers: string[] = []
           if (option.indexOf('r') !== -1) {
             originRegex = trigger
-            let pattern = convertRegex(trigger)
-            if (pattern.endsWith('$')) pattern = pattern.slice(0, -1)
-            regex = new RegExp(`(?:${pattern})$`)
+            regex = tryCreateTriggerRegex(trigger) ?? null
+            if (!regex) this.debug(`Regex matched by python`, trigger)
             // get the real text
             let parsed = getRegexText(trigger)
             if (!parsed.includes('|')) {
@@ -116,6 +124,7 @@ export default class UltiSnipsParser {
             let pm = prefix.match(/^\W+/)
             let snippet: Snippet = {
               originRegex,
+              pythonRegex: originRegex && !regex ? true : undefined,
               context: parsedContext ? parsedContext : (option.includes('e') ? ms[3] : undefined),
               filepath,
               filetype,
@@ -128,6 +137,7 @@ export default class UltiSnipsParser {
               regex,
               body,
               priority,
+              syntax: parsedSyntax,
               actions: {},
               formatOptions: {
                 noExpand: option.includes('t'),
@@ -152,19 +162,16 @@ export default class UltiSnipsParser {
           this.error(`Create snippet error on: ${filepath}:${lnum - preLines.length - 1} ${e.message}`)
         } finally {
           parsedContext = null
+          parsedSyntax = undefined
           preLines = []
         }
       }
       if (block == 'snippet' || block == 'global') {
         preLines.push(line)
-        return
+        continue
       }
-    })
-    return new Promise(resolve => {
-      rl.on('close', async () => {
-        resolve({ snippets, clearsnippets, pythonCode: pycodes.join('\n'), extendFiletypes })
-      })
-    })
+    }
+    return { snippets, clearsnippets, pythonCode: pycodes.join('\n'), extendFiletypes }
   }
 
   private error(str: string): void {
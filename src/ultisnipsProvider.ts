@@ -4,9 +4,13 @@ import os from 'os'
 import path from 'path'
 import util from 'util'
 import BaseProvider from './baseProvider'
-import { FileItem, Snippet, SnippetEdit, TriggerKind, UltiSnipsConfig, UltiSnipsFile } from './types'
+import { ParseCache } from './cache'
+import { checkJsContext, getJsSnip, hasJsCode, isJsContext, resolveJsCode } from './javascript'
+import { checkTriggerKind, matchTrigger, TriggerMatch } from './matcher'
+import { FileItem, Snippet, SnippetEdit, UltiSnipsConfig, UltiSnipsFile } from './types'
 import UltiSnipsParser from './ultisnipsParser'
-import { createMD5, distinct, documentation, filetypeFromBasename, getAdditionalFiletype, getAllAdditionalFiletype, pythonCodes, readdirAsync, sameFile, statAsync } from './util'
+import { createMD5, createTriggerRegex, distinct, documentation, filetypeFromBasename, getAdditionalFiletype, getAllAdditionalFiletype, getSnippetFiletype, pythonCodes, readdirAsync, sameFile, statAsync } from './util'
+import { FileChangeKind, FileWatcher } from './watcher'
 
 export class UltiSnippetsProvider extends BaseProvider {
   private loadedLanguageIds: Set<string> = new Set()
@@ -15,10 +19,15 @@ export class UltiSnippetsProvider extends BaseProvider {
   private fileItems: FileItem[] = []
   private parser: UltiSnipsParser
   private pythonSupport = true
+  private watcher: FileWatcher | undefined
+  private scannedDirectories: Set<string> = new Set()
+  // directory of project snippets to workspace folder
+  private projectDirectories: Map<string, string> = new Map()
   constructor(
     channel: OutputChannel,
     protected config: UltiSnipsConfig,
-    private context: ExtensionContext
+    private context: ExtensionContext,
+    private cache?: ParseCache
   ) {
     super(config, channel)
     workspace.onDidSaveTextDocument(async doc => {
@@ -26,16 +35,58 @@ export class UltiSnippetsProvider extends BaseProvider {
       if (uri.scheme != 'file' || !doc.uri.endsWith('.snippets')) return
       let filepath = uri.fsPath
       if (!fs.existsSync(filepath)) return
-      let idx = this.snippetFiles.findIndex(s => sameFile(s.filepath, filepath))
+      await this.onFileChange(filepath, 'change')
+    }, null, this.context.subscriptions)
+    if (config.watch) {
+      this.watcher = new FileWatcher(['.snippets'], this.onFileChange.bind(this), e => {
+        this.error(`Error on watch snippet files: ${e.message}`)
+      })
+      this.context.subscriptions.push(this.watcher)
+    }
+  }
+
+  /**
+   * Reload, add or remove snippets of changed snippet file.
+   */
+  public async onFileChange(filepath: string, kind: FileChangeKind): Promise<void> {
+    let idx = this.snippetFiles.findIndex(s => sameFile(s.filepath, filepath))
+    if (kind == 'delete') {
+      this.fileItems = this.fileItems.filter(o => !sameFile(o.filepath, filepath))
+      pythonCodes.delete(filepath)
       if (idx !== -1) {
-        const snippetFile = this.snippetFiles[idx]
         this.snippetFiles.splice(idx, 1)
-        await this.loadSnippetsFromFile({ filetype: snippetFile.filetype, filepath, directory: snippetFile.directory })
-      } else {
-        let filetype = filetypeFromBasename(path.basename(filepath, '.snippets'))
-        if (this.allFiletypes.includes(filetype)) await this.loadSnippetsFromFile({ filetype, filepath, directory: path.dirname(filepath) })
+        this.info(`Removed UltiSnip snippets of deleted file: ${filepath}`)
       }
-    }, null, this.context.subscriptions)
+      return
+    }
+    let item = this.fileItems.find(o => sameFile(o.filepath, filepath))
+    if (!item) {
+      item = this.createFileItem(filepath)
+      if (this.scannedDirectories.has(item.directory)) this.fileItems.push(item)
+    }
+    if (idx !== -1) {
+      let stat = await statAsync(filepath)
+      if (stat && stat.mtimeMs === this.snippetFiles[idx].mtime) return
+      this.snippetFiles.splice(idx, 1)
+      pythonCodes.delete(filepath)
+      await this.loadSnippetsFromFile(item)
+    } else if (this.allFiletypes.includes(item.filetype)) {
+      await this.loadSnippetsFromFile(item)
+    }
+  }
+
+  private createFileItem(filepath: string): FileItem {
+    let dir = path.dirname(filepath)
+    if (this.scannedDirectories.has(dir)) {
+      let filetype = filetypeFromBasename(path.basename(filepath, '.snippets'))
+      return { filepath, directory: dir, filetype }
+    }
+    let parent = path.dirname(dir)
+    if (this.scannedDirectories.has(parent)) {
+      return { filepath, directory: parent, filetype: path.basename(dir) }
+    }
+    let filetype = filetypeFromBasename(path.basename(filepath, '.snippets'))
+    return { filepath, directory: dir, filetype }
   }
 
   private get directories(): string[] {
@@ -83,12 +134,59 @@ export class UltiSnippetsProvider extends BaseProvider {
         }
       }
     }, null, this.context.subscriptions)
+    if (this.config.projectSnippets) {
+      for (let folder of workspace.workspaceFolders) {
+        await this.loadProjectSnippets(Uri.parse(folder.uri).fsPath)
+      }
+      workspace.onDidChangeWorkspaceFolders(async e => {
+        for (let folder of e.removed) {
+          this.removeProjectSnippets(Uri.parse(folder.uri).fsPath)
+        }
+        for (let folder of e.added) {
+          await this.loadProjectSnippets(Uri.parse(folder.uri).fsPath)
+        }
+      }, null, this.context.subscriptions)
+    }
     if (this.pythonSupport) {
       let filepath = this.context.asAbsolutePath('python/ultisnips.py')
       await workspace.nvim.call('coc#util#open_file', ['pyxfile', filepath])
     }
   }
 
+  /**
+   * Load snippets from .vim/UltiSnips of workspace folder.
+   */
+  private async loadProjectSnippets(folder: string): Promise<void> {
+    let directory = path.join(folder, '.vim', 'UltiSnips')
+    this.projectDirectories.set(directory, folder)
+    let items = await this.getSnippetFileItems(directory)
+    items = items.filter(item => !this.fileItems.some(o => sameFile(o.filepath, item.filepath)))
+    if (items.length == 0) return
+    this.info(`Found UltiSnips snippets of workspace folder: ${directory}`)
+    this.fileItems.push(...items)
+    for (let item of items) {
+      if (this.loadedLanguageIds.has(item.filetype)) {
+        await this.loadSnippetsFromFile(item)
+      }
+    }
+  }
+
+  private removeProjectSnippets(folder: string): void {
+    let directory = path.join(folder, '.vim', 'UltiSnips')
+    if (!this.projectDirectories.delete(directory)) return
+    this.scannedDirectories.delete(directory)
+    for (let dir of this.watcher?.directories ?? []) {
+      if (dir == directory || dir.startsWith(directory + path.sep)) this.watcher.unwatch(dir)
+    }
+    this.fileItems = this.fileItems.filter(o => o.directory != directory)
+    this.snippetFiles = this.snippetFiles.filter(o => {
+      if (o.directory != directory) return true
+      pythonCodes.delete(o.filepath)
+      return false
+    })
+    this.info(`Removed UltiSnips snippets of workspace folder: ${directory}`)
+  }
+
   public async loadSnippetsByFiletype(filetype: string): Promise<void> {
     let filetypes = this.getFiletypes(filetype)
     if (!filetypes.includes('all')) filetypes.push('all')
@@ -120,18 +218,37 @@ export class UltiSnippetsProvider extends BaseProvider {
     let { filepath, directory, filetype } = fileItem
     let idx = this.snippetFiles.findIndex(o => sameFile(o.filepath, filepath))
     if (idx !== -1 || this.isIgnored(filepath)) return
-    let { snippets, pythonCode, extendFiletypes, clearsnippets } = await this.parser.parseUltisnipsFile(filetype, filepath)
+    let stat = await statAsync(filepath)
+    let parsed = this.cache?.get<Partial<UltiSnipsFile>>('ultisnips', filepath, stat)
+    if (parsed) {
+      parsed.snippets.forEach(s => {
+        if (s.originRegex && !s.pythonRegex) Object.assign(s, { regex: createTriggerRegex(s.originRegex) })
+      })
+    } else {
+      parsed = await this.parser.parseUltisnipsFile(filetype, filepath)
+      this.cache?.set('ultisnips', filepath, stat, parsed)
+    }
+    let { snippets, pythonCode, extendFiletypes, clearsnippets } = parsed
+    if (this.projectDirectories.has(directory)) {
+      let boost = this.config.projectPriority ?? 0
+      let folder = this.projectDirectories.get(directory)
+      snippets = snippets.map(s => Object.assign({}, s, { priority: s.priority + boost, folder }))
+      if (typeof clearsnippets === 'number') clearsnippets = clearsnippets + boost
+    }
     if (!this.pythonSupport) {
-      // filter snippet with python
-      snippets = snippets.filter(s => s.regex == null && s.context == null && !s.body.includes('`!p'))
+      // filter snippet with python, javascript context, interpolation and converted regex works without python
+      snippets = snippets.filter(s => !s.pythonRegex && (s.context == null || isJsContext(s.context)) && !s.body.includes('`!p'))
     }
+    // loaded by another change event during parse
+    if (this.snippetFiles.some(o => sameFile(o.filepath, filepath))) return
     this.snippetFiles.push({
       extendFiletypes,
       clearsnippets,
       directory,
       filepath,
       filetype,
-      snippets
+      snippets,
+      mtime: stat?.mtimeMs
     })
     if (extendFiletypes?.length) {
       let filetypes = this.config.extends[filetype] || []
@@ -158,6 +275,10 @@ export class UltiSnippetsProvider extends BaseProvider {
   }
 
   public async checkContext(context: string): Promise<any> {
+    if (isJsContext(context)) {
+      let snip = await getJsSnip()
+      return snip ? checkJsContext(context, snip) : false
+    }
     if (!this.pythonSupport) return false
     // avoid change global value
     let pyCodes: string[] = [
@@ -172,6 +293,18 @@ export class UltiSnippetsProvider extends BaseProvider {
     return await workspace.nvim.getVar('__coc_context_result')
   }
 
+  /**
+   * Resolve `!js` interpolations for completion and preview.
+   */
+  public async resolveSnippetBody(body: string): Promise<string> {
+    if (!hasJsCode(body)) return body
+    let snip = await getJsSnip()
+    if (!snip) return body
+    return resolveJsCode(body, snip, e => {
+      this.error(`Error on evaluate javascript code: ${e.message}`)
+    })
+  }
+
   private async executePyCodes(lines: string[]): Promise<void> {
     try {
       await workspace.nvim.command(`pyx ${addPythonTryCatch(lines.join('\n'))}`)
@@ -182,22 +315,49 @@ export class UltiSnippetsProvider extends BaseProvider {
     }
   }
 
+  /**
+   * Match regex trigger that can't be converted to javascript by python re.
+   */
+  private async matchPythonRegex(snippet: Snippet, line: string, isWord: (ch: string) => boolean): Promise<TriggerMatch | undefined> {
+    if (!this.pythonSupport) return undefined
+    let pattern = JSON.stringify(snippet.originRegex)
+    let text = JSON.stringify(line)
+    // like UltiSnips, the first match ends at end of line is used
+    let code = `next((m.group(0) for m in __import__('re').finditer(${pattern}, ${text}) if m.end() == len(${text})), '')`
+    let res: string
+    try {
+      res = await workspace.nvim.call('pyxeval', [code]) as string
+    } catch (e: any) {
+      this.error(`Error on match regex trigger "${snippet.originRegex}": ${e.message}`)
+      return undefined
+    }
+    if (!res) return undefined
+    let character = line.length - res.length
+    if (!checkTriggerKind(snippet.triggerKind, line.slice(0, character), res, isWord)) return undefined
+    return { text: res, character }
+  }
+
   public async getTriggerSnippets(document: Document, position: Position, autoTrigger?: boolean): Promise<SnippetEdit[]> {
     let snippets = this.getDocumentSnippets(document)
     let line = document.getline(position.line)
     line = line.slice(0, position.character)
     if (line.length == 0) return []
+    let filetype = getSnippetFiletype(document)
+    let matches: Map<Snippet, TriggerMatch> = new Map()
+    let isWord = (ch: string) => document.isWord(ch)
     snippets = snippets.filter(s => {
-      if (autoTrigger && !s.autoTrigger) return false
-      let match = getMatched(s, line)
-      if (match == null) return false
-      if (s.triggerKind == TriggerKind.InWord) return true
-      let pre = line.slice(0, line.length - match.length)
-      if (s.triggerKind == TriggerKind.LineBegin) return pre.trim() == ''
-      if (s.triggerKind == TriggerKind.SpaceBefore) return pre.length == 0 || /\s$/.test(pre)
-      if (s.triggerKind == TriggerKind.WordBoundary) return pre.length == 0 || !document.isWord(pre[pre.length - 1])
-      return false
+      if (autoTrigger && !this.isAutoTrigger(s, filetype)) return false
+      if (s.pythonRegex) return true
+      let match = matchTrigger(s, line, isWord)
+      if (match) matches.set(s, match)
+      return match != null
     })
+    for (let s of snippets) {
+      if (!s.pythonRegex) continue
+      let match = await this.matchPythonRegex(s, line, isWord)
+      if (match) matches.set(s, match)
+    }
+    snippets = snippets.filter(s => matches.has(s))
     snippets.sort((a, b) => {
       if (a.context && !b.context) return -1
       if (b.context && !a.context) return 1
@@ -206,21 +366,20 @@ export class UltiSnippetsProvider extends BaseProvider {
     let edits: SnippetEdit[] = []
     let hasContext = false
     for (let s of snippets) {
-      let character: number
       if (s.context) {
-        let valid = await this.checkContext(s.context)
+        let valid: boolean
+        try {
+          valid = await this.checkContext(s.context)
+        } catch (e: any) {
+          this.error(`Error on check context "${s.context}" of ${s.filepath}:${s.lnum}: ${e.message}`)
+          valid = false
+        }
         if (!valid) continue
         hasContext = true
       } else if (hasContext) {
         break
       }
-      if (s.regex == null) {
-        character = position.character - s.prefix.length
-      } else {
-        let len = line.match(s.regex)[0].length
-        character = position.character - len
-      }
-      let range = Range.create(position.line, character, position.line, position.character)
+      let range = Range.create(position.line, matches.get(s).character, position.line, position.character)
       edits.push({
         range,
         actions: s.actions,
@@ -232,7 +391,8 @@ export class UltiSnippetsProvider extends BaseProvider {
         priority: s.priority,
         regex: s.originRegex,
         context: s.context,
-        formatOptions: s.formatOptions
+        formatOptions: s.formatOptions,
+        syntax: s.syntax
       })
     }
     return edits
@@ -250,25 +410,49 @@ export class UltiSnippetsProvider extends BaseProvider {
     return res
   }
 
-  public getSnippets(filetype: string): Snippet[] {
+  private getFiletypeFiles(filetype: string): UltiSnipsFile[] {
     let filetypes = this.getFiletypes(filetype)
     filetypes.push('all')
     let snippetFiles = this.snippetFiles.filter(o => filetypes.indexOf(o.filetype) !== -1)
-    let min: number = null
-    let result: Snippet[] = []
     snippetFiles.sort((a, b) => {
       if (a.filetype == b.filetype) return 0
       if (a.filetype == filetype) return -1
       if (b.filetype == filetype) return 1
       return 0
     })
-    for (let file of snippetFiles) {
-      let { snippets, clearsnippets } = file
+    return snippetFiles
+  }
+
+  public getAllSnippets(filetype: string): Snippet[] {
+    let result: Snippet[] = []
+    for (let file of this.getFiletypeFiles(filetype)) {
+      result.push(...file.snippets)
+    }
+    return result
+  }
+
+  /**
+   * Snippets with priority lower than the result are cleared by clearsnippets.
+   */
+  public getClearsnippets(filetype: string): number | null {
+    let min: number = null
+    for (let file of this.getFiletypeFiles(filetype)) {
+      let { clearsnippets } = file
       if (typeof clearsnippets == 'number') {
         min = min ? Math.max(min, clearsnippets) : clearsnippets
       }
+    }
+    return min
+  }
+
+  public getSnippets(filetype: string): Snippet[] {
+    let snippetFiles = this.getFiletypeFiles(filetype)
+    let min = this.getClearsnippets(filetype)
+    let result: Snippet[] = []
+    for (let file of snippetFiles) {
+      let { snippets } = file
       for (let snip of snippets) {
-        if (snip.regex || snip.context) {
+        if (snip.originRegex || snip.context) {
           result.push(snip)
         } else {
           let idx = result.findIndex(o => o.prefix == snip.prefix && o.triggerKind == snip.triggerKind)
@@ -388,6 +572,9 @@ export class UltiSnippetsProvider extends BaseProvider {
     let res: FileItem[] = []
     let stat = await statAsync(directory)
     if (stat && stat.isDirectory()) {
+      this.scannedDirectories.add(directory)
+      // filetype sub directories could be created later
+      this.watcher?.watch(directory, 1)
       let files = await readdirAsync(directory)
       if (files.length) {
         for (let filename of files) {
@@ -399,6 +586,7 @@ export class UltiSnippetsProvider extends BaseProvider {
           } else {
             let stat = await statAsync(file)
             if (stat && stat.isDirectory()) {
+              this.watcher?.watch(file)
               let files = await readdirAsync(file)
               for (let filename of files) {
                 if (filename.endsWith('.snippets')) {
@@ -480,17 +668,6 @@ function addPythonTryCatch(code: string): string {
   return lines.join('\n')
 }
 
-function getMatched(snippet: Snippet, line: string): string | undefined {
-  let { prefix, regex } = snippet
-  if (regex) {
-    let ms = line.match(regex)
-    if (!ms) return undefined
-    return ms[0]
-  }
-  if (!line.endsWith(prefix)) return undefined
-  return prefix
-}
-
 /*
  * Get user snippets directory.
  */
@@ -0,0 +1,76 @@
+import { Memento } from 'coc.nvim'
+
+interface UsageItem {
+  // times of expansion
+  count: number
+  // timestamp of last expansion
+  last: number
+}
+
+const STATE_KEY = 'snippets-usage'
+// recency weight of an expansion halves every week
+const HALF_LIFE = 7 * 24 * 60 * 60 * 1000
+const MAX_ITEMS = 2000
+
+let state: Memento | undefined
+let usage: { [key: string]: UsageItem } = {}
+
+export function initUsage(memento: Memento): void {
+  state = memento
+  usage = Object.assign({}, memento.get<{ [key: string]: UsageItem }>(STATE_KEY, {}))
+}
+
+function usageKey(filepath: string, lnum: number, prefix: string): string {
+  return `${filepath}:${lnum}:${prefix}`
+}
+
+/**
+ * Record expansion of snippet, keyed by location and prefix of snippet.
+ */
+export function recordUsage(filepath: string, lnum: number, prefix: string, now = Date.now()): void {
+  if (!filepath) return
+  let key = usageKey(filepath, lnum, prefix)
+  let item = usage[key] ?? { count: 0, last: 0 }
+  usage[key] = { count: item.count + 1, last: now }
+  let keys = Object.keys(usage)
+  if (keys.length > MAX_ITEMS) {
+    keys.sort((a, b) => score(usage[a], now) - score(usage[b], now))
+    keys.slice(0, keys.length - MAX_ITEMS).forEach(key => {
+      delete usage[key]
+    })
+  }
+  if (state) void state.update(STATE_KEY, usage)
+}
+
+function score(item: UsageItem | undefined, now: number): number {
+  if (!item) return 0
+  return item.count * Math.pow(0.5, Math.max(0, now - item.last) / HALF_LIFE)
+}
+
+/**
+ * Score by frequency and recency of expansions, 0 for unused snippet.
+ */
+export function getUsageScore(filepath: string, lnum: number, prefix: string, now = Date.now()): number {
+  return score(usage[usageKey(filepath, lnum, prefix)], now)
+}
+
+/**
+ * Sort text that put frequently and recently used snippets first.
+ */
+export function usageSortText(filepath: string, lnum: number, prefix: string): string {
+  let n = getUsageScore(filepath, lnum, prefix)
+  if (n == 0) return '1' + prefix
+  let rank = Math.max(0, 1e6 - Math.round(n * 1000))
+  return '0' + rank.toString().padStart(7, '0') + prefix
+}
+
+/**
+ * Stable sort of items by usage score, most used first.
+ */
+export function sortByUsage<T>(items: T[], fn: (item: T) => [string, number, string]): T[] {
+  let now = Date.now()
+  let scores = items.map(item => getUsageScore(...fn(item), now))
+  let indexes = items.map((_, i) => i)
+  indexes.sort((a, b) => scores[b] - scores[a] || a - b)
+  return indexes.map(i => items[i])
+}
@@ -2,13 +2,16 @@
 MIT License http://www.opensource.org/licenses/mit-license.php
 Author Qiming Zhao <chemzqm@gmail> (https://github.com/chemzqm)
 *******************************************************************/
-import { commands, Document, TextEdit, Uri, workspace } from 'coc.nvim'
+import { commands, Document, Position, Range, TextEdit, Uri, window, workspace } from 'coc.nvim'
 import crypto from 'crypto'
 import fs from 'fs'
 import os from 'os'
 import path from 'path'
 import { promisify } from 'util'
-import { ReplaceItem, SnippetEditWithSource, UltiSnippetOption } from './types'
+import { getJsSnip, hasJsCode, isJsContext, resolveJsCode } from './javascript'
+import { convertRegex } from './pythonRegex'
+import { ReplaceItem, Snippet, SnippetEditWithSource, UltiSnippetOption } from './types'
+import { recordUsage } from './usage'
 
 export interface CodeInfo {
   readonly hash: string
@@ -38,19 +41,97 @@ export function getLastSnippet(): LastSnippet | undefined {
 export async function insertSnippetEdit(edit: SnippetEditWithSource) {
   let ultisnips = edit.source == 'ultisnips' || edit.source == 'snipmate'
   let option: UltiSnippetOption
+  let newText = edit.newText
   if (ultisnips) {
     let formatOptions = edit.formatOptions ?? {}
+    if (hasJsCode(newText)) {
+      let snip = await getJsSnip(edit.range.end, edit.regex ? tryCreateTriggerRegex(edit.regex) : undefined)
+      if (snip) {
+        newText = resolveJsCode(newText, snip, e => {
+          void window.showErrorMessage(`Error on evaluate javascript code: ${e.message}`)
+        })
+      }
+    }
     option = {
       regex: edit.regex,
       actions: edit.actions,
-      context: edit.context,
+      context: isJsContext(edit.context) ? undefined : edit.context,
       noExpand: formatOptions.noExpand,
       trimTrailingWhitespace: formatOptions.trimTrailingWhitespace,
       removeWhiteSpace: formatOptions.removeWhiteSpace
     }
   }
   setLastSnippet(edit.location, edit.lnum)
-  await commands.executeCommand('editor.action.insertSnippet', TextEdit.replace(edit.range, edit.newText), option)
+  recordUsage(edit.location, edit.lnum, edit.prefix)
+  await commands.executeCommand('editor.action.insertSnippet', TextEdit.replace(edit.range, newText), option)
+}
+
+/**
+ * Edit that insert body of snippet to range.
+ */
+export function snippetToEdit(snippet: Snippet, range: Range): SnippetEditWithSource {
+  return {
+    source: snippet.provider,
+    prefix: snippet.prefix,
+    range,
+    newText: snippet.body,
+    location: snippet.filepath,
+    lnum: snippet.lnum,
+    description: snippet.description,
+    priority: snippet.priority ?? 0,
+    regex: snippet.originRegex,
+    context: snippet.context,
+    actions: snippet.actions,
+    formatOptions: snippet.formatOptions,
+    syntax: snippet.syntax
+  }
+}
+
+/**
+ * Parse syntax restriction like `Comment, !String`.
+ */
+export function parseSyntax(value: unknown): string[] | undefined {
+  let items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : []
+  let res = items.filter(s => typeof s === 'string' && s.length > 0)
+  return res.length ? res : undefined
+}
+
+/**
+ * Check syntax restriction of snippet against syntax names at cursor,
+ * snippet is valid when any name matches one of patterns and no name matches
+ * pattern starts with `!`.
+ */
+export function matchSyntax(patterns: string[] | undefined, names: string[]): boolean {
+  if (!patterns || patterns.length == 0) return true
+  let test = (pattern: string): boolean => {
+    try {
+      let re = new RegExp(pattern, 'i')
+      return names.some(name => re.test(name))
+    } catch (e) {
+      return false
+    }
+  }
+  let includes = patterns.filter(p => !p.startsWith('!'))
+  let excludes = patterns.filter(p => p.startsWith('!')).map(p => p.slice(1))
+  if (excludes.some(p => test(p))) return false
+  return includes.length == 0 || includes.some(p => test(p))
+}
+
+/**
+ * Names of syntax groups and tree-sitter captures of character before position.
+ */
+export async function getSyntaxNames(doc: Document, position: Position): Promise<string[]> {
+  let { nvim } = workspace
+  let line = doc.getline(position.line)
+  let col = Math.max(1, Buffer.byteLength(line.slice(0, position.character)))
+  let lnum = position.line + 1
+  let names = await nvim.eval(`map(synstack(${lnum}, ${col}), 'synIDattr(v:val, "name")') + map(synstack(${lnum}, ${col}), 'synIDattr(synIDtrans(v:val), "name")')`) as string[]
+  if (workspace.isNvim) {
+    let code = '(function() local ok, res = pcall(vim.treesitter.get_captures_at_pos, _A[1], _A[2], _A[3]) if not ok then return {} end return vim.tbl_map(function(c) return c.capture end, res) end)()'
+    let captures = await nvim.call('luaeval', [code, [doc.bufnr, lnum - 1, col - 1]]) as string[]
+    if (Array.isArray(captures)) names = names.concat(captures)
+  }
+  return distinct(names.filter(s => s.length > 0))
 }
 
 export function addFiletypes(bufnr: number, filetypes: string[]): void {
@@ -209,44 +290,27 @@ export function distinct<T>(array: T[], keyFn?: (t: T) => string): T[] {
   })
 }
 
-const stringStartRe = /\\A/
-const conditionRe = /\(\?\(\w+\).+\|/
-const commentRe = /\(\?#.*?\)/
-const namedCaptureRe = /\(\?P<\w+>.*?\)/
-const namedReferenceRe = /\(\?P=(\w+)\)/
-const regex = new RegExp(`${commentRe.source}|${stringStartRe.source}|${namedCaptureRe.source}|${namedReferenceRe.source}`, 'g')
+/**
+ * Create RegExp that matches the end of line from python regex trigger.
+ */
+export function createTriggerRegex(trigger: string): RegExp {
+  let { source, flags } = convertRegex(trigger)
+  if (/(?<!\\)\$$/.test(source)) source = source.slice(0, -1)
+  return new RegExp(`(?:${source})$`, flags)
+}
 
 /**
- * Convert python regex to javascript regex,
- * throw error when unsupported pattern found
- *
- * @public
- * @param {string} str
- * @returns {string}
+ * RegExp of python regex trigger, undefined when the trigger contains
+ * constructs rejected by convertRegex and should be matched by python,
+ * SyntaxError is thrown for invalid pattern.
  */
-export function convertRegex(str: string): string {
-  if (str.indexOf('\\z') !== -1) {
-    throw new Error('pattern \\z not supported')
-  }
-  if (str.indexOf('(?s)') !== -1) {
-    throw new Error('pattern (?s) not supported')
-  }
-  if (str.indexOf('(?x)') !== -1) {
-    throw new Error('pattern (?x) not supported')
-  }
-  if (str.indexOf('\n') !== -1) {
-    throw new Error('multiple line pattern not supported')
-  }
-  if (conditionRe.test(str)) {
-    throw new Error('(?id/name)yes-pattern|no-pattern not supported')
+export function tryCreateTriggerRegex(trigger: string): RegExp | undefined {
+  try {
+    return createTriggerRegex(trigger)
+  } catch (e) {
+    if (e instanceof SyntaxError) throw e
+    return undefined
   }
-  return str.replace(regex, (match, p1) => {
-    if (match.startsWith('(?#')) return ''
-    if (match == '\\A') return '^'
-    if (match.startsWith('(?P<')) return '(?' + match.slice(3)
-    if (match.startsWith('(?P=')) return `\\k<${p1}>`
-    return ''
-  })
 }
 
 export function getRegexText(prefix: string): string {
@@ -264,12 +328,37 @@ export function getTriggerText(text: string, regex: boolean): string {
   return text
 }
 
+/**
+ * Open readonly lines in a new scratch buffer at bottom.
+ */
+export async function openScratchBuffer(lines: string[]): Promise<void> {
+  let { nvim } = workspace
+  await nvim.command('botright new')
+  let buf = await nvim.buffer
+  nvim.pauseNotification()
+  buf.setOption('buftype', 'nofile', true)
+  buf.setOption('bufhidden', 'wipe', true)
+  buf.setOption('swapfile', false, true)
+  buf.setLines(lines, { start: 0, end: -1, strictIndexing: false }, true)
+  buf.setOption('modifiable', false, true)
+  buf.setOption('modified', false, true)
+  await nvim.resumeNotification()
+}
+
 export function markdownBlock(code: string, filetype: string): string {
   filetype = filetype == 'javascriptreact' ? 'javascript' : filetype
   filetype = filetype == 'typescriptreact' ? 'typescript' : filetype
   return '``` ' + filetype + '\n' + code + '\n```'
 }
 
+/**
+ * Lines of resolved snippet text in markdown code block, followed by location.
+ */
+export function getPreviewLines(text: string, filetype: string, location: string): string[] {
+  let ms = filetype?.match(/^\w+/)
+  return `${markdownBlock(text, ms == null ? 'txt' : ms[0])}\n${location}`.split('\n')
+}
+
 export async function waitDocument(doc: Document, changedtick: number): Promise<boolean> {
   if (doc.changedtick >= changedtick) return Promise.resolve(doc.changedtick === changedtick)
   return new Promise(resolve => {
@@ -294,6 +383,13 @@ export function isParentFolder(folder: string, filepath: string, checkEqual = fa
   return fileStartsWith(dir, pdir) && dir[pdir.length] == path.sep
 }
 
+/**
+ * Snippet of workspace folder is only available for files inside the folder.
+ */
+export function isSnippetAvailable(snippet: { folder?: string }, filepath: string): boolean {
+  return !snippet.folder || isParentFolder(snippet.folder, filepath)
+}
+
 // use uppercase for windows driver
 export function fixDriver(filepath: string, platform = os.platform()): string {
   if (platform != 'win32' || filepath[1] != ':') return filepath
@@ -387,3 +483,11 @@ export function filetypeFromBasename(basename: string): string {
   if (basename.includes('_')) return basename.split('_', 2)[0]
   return basename.split('-', 2)[0]
 }
+
+/**
+ * Filetype of snippet file by its name, `all` for file without filetype.
+ */
+export function snippetFileFiletype(filepath: string): string {
+  let basename = path.basename(filepath).replace(/\..*$/, '')
+  return filetypeFromBasename(basename) || 'all'
+}
@@ -0,0 +1,107 @@
+import { Disposable } from 'coc.nvim'
+import fs from 'fs'
+import path from 'path'
+import { readdirAsync, statAsync } from './util'
+
+export type FileChangeKind = 'change' | 'delete'
+
+export type FileChangeCallback = (filepath: string, kind: FileChangeKind) => Promise<void>
+
+/**
+ * Watch directories for changes of snippet files, changes happened to the
+ * same file in a short time are merged into one event.
+ */
+export class FileWatcher implements Disposable {
+  private watchers: Map<string, fs.FSWatcher> = new Map()
+  private timers: Map<string, NodeJS.Timeout> = new Map()
+  constructor(
+    private extnames: string[],
+    private callback: FileChangeCallback,
+    private onError: (e: Error) => void,
+    private delay = 100
+  ) {
+  }
+
+  /**
+   * Watch files of directory, sub directories created later are watched to
+   * `depth` levels, fs.watch is not recursive on linux.
+   */
+  public watch(directory: string, depth = 0): void {
+    if (this.watchers.has(directory)) return
+    let watcher: fs.FSWatcher
+    try {
+      watcher = fs.watch(directory, { persistent: false }, (event, filename) => {
+        if (!filename) return
+        let name = filename.toString()
+        let filepath = path.join(directory, name)
+        if (this.extnames.some(ext => name.endsWith(ext))) {
+          this.schedule(filepath)
+        } else if (event == 'rename' && depth > 0) {
+          this.onDirectoryRename(filepath, depth - 1).catch(e => {
+            this.onError(e)
+          })
+        }
+      })
+    } catch (e: any) {
+      this.onError(e)
+      return
+    }
+    watcher.on('error', e => {
+      this.onError(e)
+      this.unwatch(directory)
+    })
+    this.watchers.set(directory, watcher)
+  }
+
+  public unwatch(directory: string): void {
+    let watcher = this.watchers.get(directory)
+    if (!watcher) return
+    watcher.close()
+    this.watchers.delete(directory)
+  }
+
+  public get directories(): string[] {
+    return Array.from(this.watchers.keys())
+  }
+
+  /**
+   * Watch created sub directory and report files inside, which could be
+   * moved in with files, removed sub directory is unwatched.
+   */
+  private async onDirectoryRename(directory: string, depth: number): Promise<void> {
+    let stat = await statAsync(directory)
+    if (!stat || !stat.isDirectory()) {
+      this.unwatch(directory)
+      return
+    }
+    if (this.watchers.has(directory)) return
+    this.watch(directory, depth)
+    let files = await readdirAsync(directory) ?? []
+    for (let name of files) {
+      if (this.extnames.some(ext => name.endsWith(ext))) this.schedule(path.join(directory, name))
+    }
+  }
+
+  private schedule(filepath: string): void {
+    let timer = this.timers.get(filepath)
+    if (timer) clearTimeout(timer)
+    this.timers.set(filepath, setTimeout(() => {
+      this.timers.delete(filepath)
+      let kind: FileChangeKind = fs.existsSync(filepath) ? 'change' : 'delete'
+      this.callback(filepath, kind).catch(e => {
+        this.onError(e)
+      })
+    }, this.delay))
+  }
+
+  public dispose(): void {
+    for (let timer of this.timers.values()) {
+      clearTimeout(timer)
+    }
+    this.timers.clear()
+    for (let watcher of this.watchers.values()) {
+      watcher.close()
+    }
+    this.watchers.clear()
+  }
+}
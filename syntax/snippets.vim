@@ -23,6 +23,8 @@ try
    unlet b:current_syntax
    syntax include @Shell syntax/sh.vim
    unlet b:current_syntax
+   syntax include @JavaScript syntax/javascript.vim
+   unlet b:current_syntax
 catch /E403/
    " Ignore errors about syntax files that can't be loaded more than once
 endtry
@@ -86,9 +88,10 @@ syn match snipSnippetOptionFlag ,[biwrtsmxAe], contained
 
 " Command substitution {{{4
 
-syn region snipCommand keepend matchgroup=snipCommandDelim start="`" skip="\\[{}\\$`]" end="`" contained contains=snipPythonCommand,snipVimLCommand,snipShellCommand,snipCommandSyntaxOverride
+syn region snipCommand keepend matchgroup=snipCommandDelim start="`" skip="\\[{}\\$`]" end="`" contained contains=snipPythonCommand,snipJsCommand,snipVimLCommand,snipShellCommand,snipCommandSyntaxOverride
 syn region snipShellCommand start="\ze\_." skip="\\[{}\\$`]" end="\ze`" contained contains=@Shell
 syn region snipPythonCommand matchgroup=snipPythonCommandP start="`\@<=!p\_s" skip="\\[{}\\$`]" end="\ze`" contained contains=@Python
+syn region snipJsCommand matchgroup=snipJsCommandJ start="`\@<=!js\_s" skip="\\[{}\\$`]" end="\ze`" contained contains=@JavaScript
 syn region snipVimLCommand matchgroup=snipVimLCommandV start="`\@<=!v\_s" skip="\\[{}\\$`]" end="\ze`" contained contains=@Viml
 syn cluster snipTokens add=snipCommand
 syn cluster snipTabStopTokens add=snipCommand
@@ -162,6 +165,12 @@ syn match snipContextKeyword "context" contained nextgroup=snipContextValue skip
 syn match snipContextValue '"[^"]*"' contained contains=snipContextValueP
 syn region snipContextValueP start=,"\@<=., end=,\ze", contained contains=@Python skipwhite keepend
 
+" syntax {{{3
+
+syn match snipSyntax "^syntax\s.*$" contains=snipSyntaxKeyword display skipwhite
+syn match snipSyntaxKeyword "^syntax" contained nextgroup=snipSyntaxValue skipwhite display
+syn match snipSyntaxValue '"[^"]*"' contained
+
 " Actions {{{3
 
 syn match snipAction "^\%(pre_expand\|post_expand\|post_jump\).*$" contains=snipActionKeyword display skipwhite
@@ -201,6 +210,7 @@ hi def link snipCommandDelim     snipCommand
 hi def link snipShellCommand     snipCommand
 hi def link snipVimLCommand      snipCommand
 hi def link snipPythonCommandP   PreProc
+hi def link snipJsCommandJ       PreProc
 hi def link snipVimLCommandV     PreProc
 hi def link snipSnippetContext   String
 hi def link snipContext          String
@@ -227,6 +237,9 @@ hi def link snipPriorityValue    Number
 
 hi def link snipActionKeyword  Keyword
 
+hi def link snipSyntaxKeyword  Keyword
+hi def link snipSyntaxValue    String
+
 hi def link snipClearKeyword     Keyword
 
 " }}}1
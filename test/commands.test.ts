@@ -243,4 +243,25 @@ describe('registered commands', () => {
       window.showQuickPick = original
     }
   })
+
+  it('lists, resolves and expands snippets through commands', async () => {
+    let nvim = workspace.nvim
+    let doc = await openBuffer()
+    await nvim.command('setf javascript')
+    await waitFor(() => doc.filetype == 'javascript')
+    await commands.executeCommand('snippets.addFiletypes', 'javascript')
+    let snippets: any[] = []
+    await waitFor(async () => {
+      snippets = await commands.executeCommand('snippets.listSnippets', 'javascript')
+      return snippets.some(o => o.prefix == 'fortest')
+    })
+    let snippet = snippets.find(o => o.prefix == 'fortest')
+    let resolved = await commands.executeCommand('snippets.resolveSnippet', { filepath: snippet.filepath, lnum: snippet.lnum })
+    assert.ok(typeof resolved === 'string' && resolved.startsWith('for (;;) {') && resolved.includes('body'), `unexpected resolved: ${resolved}`)
+    await nvim.command('startinsert')
+    let expanded = await commands.executeCommand('snippets.expandSnippet', 'fortest')
+    assert.equal(expanded, true)
+    await waitFor(async () => (await doc.buffer.lines)[0] == 'for (;;) {')
+    await nvim.command('stopinsert')
+  })
 })
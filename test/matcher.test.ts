@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { firstCharacter, lastCharacter, matchTrigger } from '../src/matcher'
+import { TriggerKind } from '../src/types'
+import UltiSnipsParser from '../src/ultisnipsParser'
+import { createTriggerRegex } from '../src/util'
+
+const isWord = (ch: string): boolean => /^[\w一-鿿]$/u.test(ch)
+
+function match(prefix: string, triggerKind: TriggerKind, before: string, regex?: RegExp) {
+  return matchTrigger({ prefix, triggerKind, regex }, before, isWord)
+}
+
+describe('trigger matcher', () => {
+  it('matches word boundary trigger', () => {
+    assert.deepEqual(match('fn', TriggerKind.WordBoundary, 'let fn'), { text: 'fn', character: 4 })
+    assert.deepEqual(match('fn', TriggerKind.WordBoundary, 'fn'), { text: 'fn', character: 0 })
+    assert.deepEqual(match('fn', TriggerKind.WordBoundary, '(fn'), { text: 'fn', character: 1 })
+    assert.equal(match('fn', TriggerKind.WordBoundary, 'afn'), undefined)
+    assert.equal(match('fn', TriggerKind.WordBoundary, 'let f'), undefined)
+    assert.equal(match('', TriggerKind.WordBoundary, 'let'), undefined)
+  })
+
+  it('matches special prefix after word', () => {
+    assert.deepEqual(match('.log', TriggerKind.PrefixBoundary, 'foo.log'), { text: '.log', character: 3 })
+    assert.deepEqual(match('!doctype', TriggerKind.PrefixBoundary, '!doctype'), { text: '!doctype', character: 0 })
+    assert.deepEqual(match('fn', TriggerKind.PrefixBoundary, '(fn'), { text: 'fn', character: 1 })
+    assert.equal(match('fn', TriggerKind.PrefixBoundary, 'afn'), undefined)
+    assert.equal(match('.log', TriggerKind.SpaceBefore, 'foo.log'), undefined)
+  })
+
+  it('requires none keyword character before UltiSnips w trigger', () => {
+    assert.equal(match('.log', TriggerKind.WordBoundary, 'foo.log'), undefined)
+    assert.deepEqual(match('.log', TriggerKind.WordBoundary, 'foo .log'), { text: '.log', character: 4 })
+    assert.deepEqual(match('.log', TriggerKind.WordBoundary, '.log'), { text: '.log', character: 0 })
+  })
+
+  it('matches parsed UltiSnips w trigger like UltiSnips', async () => {
+    let dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coc-snippets-matcher-'))
+    let filepath = path.join(dir, 'all.snippets')
+    fs.writeFileSync(filepath, 'snippet .log "log" w\nconsole.log()\nendsnippet\n')
+    const parser = new UltiSnipsParser({ appendLine: () => {} } as any)
+    let res = await parser.parseUltisnipsFile('all', filepath)
+    fs.rmSync(dir, { recursive: true, force: true })
+    let snippet = res.snippets[0]
+    assert.equal(matchTrigger(snippet, 'foo.log', isWord), undefined)
+    assert.deepEqual(matchTrigger(snippet, 'foo(.log', isWord), { text: '.log', character: 4 })
+  })
+
+  it('matches space before trigger', () => {
+    assert.deepEqual(match('fn', TriggerKind.SpaceBefore, 'a fn'), { text: 'fn', character: 2 })
+    assert.deepEqual(match('fn', TriggerKind.SpaceBefore, '\tfn'), { text: 'fn', character: 1 })
+    assert.equal(match('fn', TriggerKind.SpaceBefore, '(fn'), undefined)
+  })
+
+  it('matches line begin trigger', () => {
+    assert.deepEqual(match('fn', TriggerKind.LineBegin, '  fn'), { text: 'fn', character: 2 })
+    assert.equal(match('fn', TriggerKind.LineBegin, 'a fn'), undefined)
+  })
+
+  it('matches in word trigger', () => {
+    assert.deepEqual(match('fn', TriggerKind.InWord, 'afn'), { text: 'fn', character: 1 })
+  })
+
+  it('matches regex trigger', () => {
+    let regex = createTriggerRegex('(\\d+)x(\\d+)')
+    assert.deepEqual(match('x', TriggerKind.InWord, 'a 3x4', regex), { text: '3x4', character: 2 })
+    assert.deepEqual(match('x', TriggerKind.WordBoundary, 'a 3x4', regex), { text: '3x4', character: 2 })
+    assert.equal(match('x', TriggerKind.WordBoundary, 'a3x4', regex), undefined)
+    assert.equal(match('x', TriggerKind.InWord, '3x', regex), undefined)
+  })
+
+  it('respects iskeyword and multibyte characters', () => {
+    assert.equal(match('fn', TriggerKind.WordBoundary, '中fn'), undefined)
+    assert.deepEqual(match('fn', TriggerKind.WordBoundary, '😀fn'), { text: 'fn', character: 2 })
+    assert.deepEqual(match('😀', TriggerKind.PrefixBoundary, 'a😀'), { text: '😀', character: 1 })
+    assert.equal(matchTrigger({ prefix: 'fn', triggerKind: TriggerKind.WordBoundary }, 'a-fn', ch => ch == '-' || isWord(ch)), undefined)
+    assert.equal(lastCharacter('a😀'), '😀')
+    assert.equal(firstCharacter('😀a'), '😀')
+  })
+})
@@ -1,13 +1,33 @@
 import assert from 'node:assert/strict'
 import { after, before, describe, it } from 'node:test'
-import { EventEmitter } from 'node:events'
+import fs from 'node:fs'
 import http from 'node:http'
-import { window } from 'coc.nvim'
-import { MassCodeProvider } from '../src/massCodeProvider'
-import { Snippet, TriggerKind } from '../src/types'
+import os from 'node:os'
+import path from 'node:path'
+import { Range, window, workspace } from 'coc.nvim'
+import { listSnippets } from '../src/api'
+import { clearAutoTriggerConflicts, getAutoTriggerConflicts, recordAutoTriggerConflict, resolveAutoTrigger } from '../src/autoTrigger'
+import { ParseCache, PARSER_VERSION } from '../src/cache'
+import { convertSnippets } from '../src/converter'
+import { getConflicts, getDefinitions } from '../src/definitions'
+import { ExternalProvider } from '../src/externalProvider'
+import { SnippetHoverProvider } from '../src/hoverProvider'
+import { getJsonDiagnostics } from '../src/jsonDiagnostics'
+import { checkJsContext, createJsSnip, resolveJsCode } from '../src/javascript'
+import { getDiagnostics } from '../src/languages'
+import { SnippetOutlineProvider } from '../src/outlineProvider'
+import { mapMassCodeItems, MassCodeProvider } from '../src/massCodeProvider'
+import { ProviderManager } from '../src/provider'
+import { convertRegex } from '../src/pythonRegex'
+import { duplicateSnippet, removeSnippet } from '../src/snippetDocument'
+import { getTemplates } from '../src/templates'
+import { Snippet, SnippetEditWithSource, TriggerKind } from '../src/types'
+import UltiSnipsParser from '../src/ultisnipsParser'
 import { UltiSnippetsProvider } from '../src/ultisnipsProvider'
-import { clearExtensionState, clearFolderState } from '../src/util'
-import { waitProviderInit } from './helper'
+import { getUsageScore, initUsage, recordUsage, sortByUsage } from '../src/usage'
+import { clearExtensionState, clearFolderState, createTriggerRegex, matchSyntax, parseSyntax, snippetFileFiletype } from '../src/util'
+import { FileWatcher } from '../src/watcher'
+import { waitFor, waitProviderInit } from './helper'
 
 function makeSnippet(prefix: string, priority: number, body: string): Snippet {
   return {
@@ -57,6 +77,40 @@ describe('ultisnips snippet dedup', () => {
   })
 })
 
+describe('ultisnips project snippets', () => {
+  let dir: string
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coc-snippets-project-'))
+    fs.mkdirSync(path.join(dir, '.vim', 'UltiSnips'), { recursive: true })
+    fs.writeFileSync(path.join(dir, '.vim', 'UltiSnips', 'all.snippets'), 'snippet foo "project"\nproject-body\nendsnippet\n')
+  })
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('loads snippets of workspace folder with boosted priority', async () => {
+    const channel = { appendLine: () => {} } as any
+    const config = { extends: {}, excludes: [], trace: false, directories: [], projectSnippets: true, projectPriority: 10 } as any
+    const context = { subscriptions: [], asAbsolutePath: () => '' } as any
+    const provider = new UltiSnippetsProvider(channel, config, context)
+    ;(provider as any).parser = new UltiSnipsParser(channel)
+    ;(provider as any).loadedLanguageIds.add('all')
+    ;(provider as any).snippetFiles = [
+      { filepath: '/user/all.snippets', filetype: 'all', clearsnippets: null, snippets: [makeSnippet('foo', 5, 'global-body')] }
+    ]
+    await (provider as any).loadProjectSnippets(dir)
+    let res = provider.getSnippets('javascript')
+    assert.equal(res.length, 1)
+    assert.equal(res[0].body, 'project-body')
+    assert.equal(res[0].priority, 10)
+    ;(provider as any).removeProjectSnippets(dir)
+    res = provider.getSnippets('javascript')
+    assert.equal(res[0].body, 'global-body')
+  })
+})
+
 describe('textmate provider lifecycle', () => {
   before(async () => {
     await waitProviderInit()
@@ -91,54 +145,769 @@ describe('textmate provider lifecycle', () => {
     assert.equal(loadedFiles.has('/other/b.code-snippets'), true)
     assert.deepEqual(res, [{ filepath: '/other/b.code-snippets' }])
   })
+
+  it('offers snippets of workspace folder only for files inside the folder', () => {
+    const channel = { appendLine: () => {} } as any
+    const manager = new ProviderManager(channel, [], {} as any)
+    const global = makeSnippet('foo', -1, 'global')
+    const project = Object.assign(makeSnippet('bar', -1, 'project'), { filepath: '/ws/.vscode/a.code-snippets', folder: '/ws' })
+    manager.regist({ getSnippets: () => [global, project] } as any, 'snippets')
+    assert.deepEqual(manager.getSnippets('all', '/ws/src/a.js').map(o => o.body), ['project', 'global'])
+    assert.deepEqual(manager.getSnippets('all', '/other/a.js').map(o => o.body), ['global'])
+    assert.equal(manager.getSnippets('all').length, 2)
+  })
+})
+
+describe('parse cache', () => {
+  let dir: string
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coc-snippets-cache-'))
+  })
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('returns cached data only when mtime and size match', () => {
+    const filepath = path.join(dir, 'all.snippets')
+    fs.writeFileSync(filepath, 'snippet foo\nfoo\nendsnippet', 'utf8')
+    const stat = fs.statSync(filepath)
+    const cache = new ParseCache(path.join(dir, 'storage'))
+    cache.set('ultisnips', filepath, stat, { snippets: [] })
+    assert.deepEqual(cache.get('ultisnips', filepath, stat), { snippets: [] })
+    assert.equal(cache.get('snipmate', filepath, stat), undefined)
+    assert.equal(cache.get('ultisnips', filepath, Object.assign({}, stat, { size: stat.size + 1 }) as fs.Stats), undefined)
+    cache.dispose()
+  })
+
+  it('persists entries and drops them on version change', () => {
+    const folder = path.join(dir, 'persist')
+    const filepath = path.join(dir, 'all.snippets')
+    const stat = fs.statSync(filepath)
+    const cache = new ParseCache(folder)
+    cache.set('snipmate', filepath, stat, { snippets: [], extends: ['c'] })
+    cache.dispose()
+    assert.deepEqual(new ParseCache(folder).get('snipmate', filepath, stat), { snippets: [], extends: ['c'] })
+    const content = JSON.parse(fs.readFileSync(path.join(folder, 'snippets-cache.json'), 'utf8'))
+    content.version = PARSER_VERSION - 1
+    fs.writeFileSync(path.join(folder, 'snippets-cache.json'), JSON.stringify(content), 'utf8')
+    assert.equal(new ParseCache(folder).get('snipmate', filepath, stat), undefined)
+    const other = new ParseCache(folder)
+    other.clear()
+    assert.equal(fs.existsSync(path.join(folder, 'snippets-cache.json')), false)
+  })
+})
+
+describe('file watcher', () => {
+  let dir: string
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coc-snippets-watch-'))
+  })
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('watches sub directory created after watch', async () => {
+    const changes: string[] = []
+    const watcher = new FileWatcher(['.snippets'], async (filepath, kind) => {
+      changes.push(`${kind} ${path.relative(dir, filepath)}`)
+    }, () => {}, 10)
+    watcher.watch(dir, 1)
+    fs.mkdirSync(path.join(dir, 'javascript'))
+    await waitFor(() => watcher.directories.length == 2)
+    fs.writeFileSync(path.join(dir, 'javascript', 'a.snippets'), 'snippet a\na\nendsnippet', 'utf8')
+    await waitFor(() => changes.includes(`change ${path.join('javascript', 'a.snippets')}`))
+    fs.rmSync(path.join(dir, 'javascript'), { recursive: true })
+    await waitFor(() => watcher.directories.length == 1)
+    watcher.dispose()
+  })
+})
+
+describe('snippet usage ranking', () => {
+  it('ranks snippets by frequency and recency of expansions', () => {
+    const stored: { [key: string]: any } = {}
+    const memento = {
+      get: (key: string, defaultValue?: any) => stored[key] ?? defaultValue,
+      update: async (key: string, value: any) => {
+        stored[key] = JSON.parse(JSON.stringify(value))
+      }
+    } as any
+    initUsage(memento)
+    const now = Date.now()
+    const month = 30 * 24 * 60 * 60 * 1000
+    recordUsage('/a.snippets', 1, 'old', now - month)
+    recordUsage('/a.snippets', 1, 'old', now - month)
+    recordUsage('/a.snippets', 2, 'recent', now)
+    assert.ok(getUsageScore('/a.snippets', 2, 'recent', now) > getUsageScore('/a.snippets', 1, 'old', now))
+    assert.equal(getUsageScore('/a.snippets', 3, 'unused', now), 0)
+    const sorted = sortByUsage(['unused', 'old', 'recent'], prefix => {
+      return ['/a.snippets', { unused: 3, old: 1, recent: 2 }[prefix], prefix]
+    })
+    assert.deepEqual(sorted, ['recent', 'old', 'unused'])
+    // restored from memento
+    initUsage(memento)
+    assert.ok(getUsageScore('/a.snippets', 2, 'recent', now) > 0)
+  })
+})
+
+describe('convert snippets', () => {
+  function snippet(props: Partial<Snippet>): Snippet {
+    return Object.assign(makeSnippet('foo', 0, 'foo'), props)
+  }
+
+  it('converts vscode snippets to ultisnips', () => {
+    let snip = snippet({ provider: 'snippets', prefix: 'log', description: 'say "hi"', triggerKind: TriggerKind.WordBoundary, body: 'log(${1:$TM_SELECTED_TEXT}) `x`' })
+    let res = convertSnippets([snip], 'ultisnips')
+    assert.equal(res.count, 1)
+    assert.deepEqual(res.problems, [])
+    assert.equal(res.text, 'snippet log "say \'hi\'" w\nlog(${1:${VISUAL}}) \\`x\\`\nendsnippet\n')
+  })
+
+  it('keeps options, context and priority of ultisnips snippets', () => {
+    let snip = snippet({ provider: 'ultisnips', prefix: 'a b', priority: -1, triggerKind: TriggerKind.LineBegin, autoTrigger: true, context: 'x == "y"' })
+    let res = convertSnippets([snip], 'ultisnips')
+    assert.equal(res.text, 'priority -1\n\ncontext "x == "y""\nsnippet "a b" "foo" bAe\nfoo\nendsnippet\n')
+  })
+
+  it('converts ultisnips snippets to vscode and reports dropped features', () => {
+    let snippets = [
+      snippet({ provider: 'ultisnips', prefix: 'vis', description: 'visual', body: '${VISUAL:default} \\`', triggerKind: TriggerKind.LineBegin }),
+      snippet({ provider: 'ultisnips', prefix: 'py', lnum: 5, body: '`!p snip.rv = 1`' }),
+      snippet({ provider: 'ultisnips', prefix: 're', lnum: 9, regex: /re$/, originRegex: 're' })
+    ]
+    let res = convertSnippets(snippets, 'vscode', { scope: true })
+    assert.equal(res.count, 1)
+    assert.deepEqual(res.json, {
+      visual: { prefix: 'vis', body: ['${TM_SELECTED_TEXT:default} `'], description: 'visual' }
+    })
+    assert.deepEqual(res.problems.map(o => [o.snippet.prefix, o.skipped]), [['vis', false], ['py', true], ['re', true]])
+  })
+
+  it('groups prefixes of the same vscode snippet', () => {
+    let snippets = [
+      snippet({ provider: 'snippets', prefix: 'a', filetype: 'javascript' }),
+      snippet({ provider: 'snippets', prefix: 'b', filetype: 'javascript' })
+    ]
+    let res = convertSnippets(snippets, 'vscode', { scope: true })
+    assert.deepEqual(res.json, { foo: { prefix: ['a', 'b'], body: ['foo'], description: 'foo', scope: 'javascript' } })
+  })
+
+  it('keeps auto trigger of snippets in all formats', () => {
+    let snip = snippet({ provider: 'snippets', prefix: ';a', autoTrigger: true, triggerKind: TriggerKind.WordBoundary })
+    assert.deepEqual(convertSnippets([snip], 'vscode').json, { foo: { prefix: ';a', body: ['foo'], description: 'foo', autotrigger: true } })
+    let res = convertSnippets([snip], 'snipmate')
+    assert.deepEqual(res.problems, [])
+    assert.equal(res.text, 'autosnippet ;a foo\n\tfoo\n')
+    assert.equal(convertSnippets([snip], 'ultisnips').text, 'snippet ;a "foo" Aw\nfoo\nendsnippet\n')
+  })
+
+  it('keeps word boundary of snippets converted to ultisnips', () => {
+    let parser = new UltiSnipsParser()
+    let text = 'snippet a "A" w\na\nendsnippet\n\nsnippet b "B"\nb\nendsnippet\n'
+    let parsed = parser.parseUltisnipsText('all', '/tmp/all.snippets', text).snippets.map(o => Object.assign({}, o, { provider: 'ultisnips' }))
+    let res = convertSnippets(parsed, 'ultisnips')
+    assert.equal(res.text, text)
+    let reparsed = parser.parseUltisnipsText('all', '/tmp/all.snippets', res.text).snippets
+    assert.deepEqual(reparsed.map(o => o.triggerKind), parsed.map(o => o.triggerKind))
+    let snipmate = snippet({ provider: 'snipmate', prefix: 'sm', triggerKind: TriggerKind.WordBoundary })
+    assert.equal(convertSnippets([snipmate], 'ultisnips').text, 'snippet sm "foo" w\nfoo\nendsnippet\n')
+    let massCode = snippet({ provider: 'massCode', prefix: 'mc', triggerKind: TriggerKind.LineBegin })
+    assert.equal(convertSnippets([massCode], 'ultisnips').text, 'snippet mc "foo" b\nfoo\nendsnippet\n')
+    assert.deepEqual(convertSnippets(parsed, 'vscode').problems, [])
+  })
+
+  it('converts vim interpolation to snipmate', () => {
+    let snip = snippet({ provider: 'ultisnips', prefix: 'date', description: 'Date', body: '`!v strftime("%Y")`\n' })
+    let res = convertSnippets([snip], 'snipmate')
+    assert.equal(res.text, 'snippet date Date\n\t`strftime("%Y")`\n\t\n')
+  })
+})
+
+describe('snippet file edit', () => {
+  const ultisnips = 'priority 1\n\nsnippet a "A"\na\nendsnippet\n\ncontext "True"\nsnippet b "B"\nb\nendsnippet\n'
+  const snipmate = 'snippet a\n\ta\n\nsnippet b\n\tb\n'
+  const json = '{\n  "a": {\n    "prefix": "a",\n    "body": ["a"]\n  },\n  "b": {\n    "prefix": "b",\n    "body": "b"\n  }\n}\n'
+
+  it('removes snippet with directives', () => {
+    assert.equal(removeSnippet('ultisnips', ultisnips, 7), 'priority 1\n\nsnippet a "A"\na\nendsnippet\n')
+    assert.equal(removeSnippet('ultisnips', ultisnips, 2), 'priority 1\n\ncontext "True"\nsnippet b "B"\nb\nendsnippet\n')
+    assert.equal(removeSnippet('snipmate', snipmate, 0), 'snippet b\n\tb\n')
+    assert.deepEqual(JSON.parse(removeSnippet('json', json, 1)), { b: { prefix: 'b', body: 'b' } })
+    assert.equal(removeSnippet('ultisnips', ultisnips, 3), undefined)
+  })
+
+  it('duplicates snippet after it', () => {
+    let res = duplicateSnippet('ultisnips', ultisnips, 7)
+    assert.equal(res.content, ultisnips.replace(/\n$/, '') + '\n\ncontext "True"\nsnippet b "B"\nb\nendsnippet\n')
+    assert.equal(res.lnum, 12)
+    res = duplicateSnippet('snipmate', snipmate, 0)
+    assert.equal(res.content, 'snippet a\n\ta\n\nsnippet a\n\ta\n\nsnippet b\n\tb\n')
+    assert.equal(res.lnum, 3)
+    res = duplicateSnippet('json', json, 1)
+    assert.deepEqual(JSON.parse(res.content)['a (2)'], { prefix: 'a', body: ['a'] })
+    assert.deepEqual(Object.keys(JSON.parse(res.content)), ['a', 'a (2)', 'b'])
+    assert.equal(res.content.split('\n')[res.lnum].trim().startsWith('"a (2)"'), true)
+  })
+})
+
+describe('snippets file validation', () => {
+  function codes(content: string, uri = 'file:///tmp/UltiSnips/all.snippets'): [number, number][] {
+    return getDiagnostics(uri, content).map(o => [o.range.start.line, o.code as number])
+  }
+
+  it('reports unclosed and stray blocks', () => {
+    assert.deepEqual(codes('snippet foo\nbar\n\nendsnippet\nendsnippet'), [[4, 6]])
+    assert.deepEqual(codes('snippet foo\nbar\nsnippet bar\n'), [[0, 5]])
+    assert.deepEqual(codes('global !p\nx = 1\nendsnippet\n'), [[0, 7]])
+  })
+
+  it('reports malformed directives', () => {
+    assert.deepEqual(codes('priority high\npriority -50\nextends\nextends c cpp\nextends c, cpp'), [[0, 8], [2, 9], [3, 9]])
+  })
+
+  it('reports context and actions not followed by snippet', () => {
+    let content = 'context "True"\npre_expand "pass"\n\nsnippet foo "" e\nfoo\nendsnippet\npost_jump "pass"\npriority 1\ncontext "x"\n'
+    assert.deepEqual(codes(content), [[6, 10], [8, 10]])
+  })
+
+  it('skips structural checks of snipmate files', () => {
+    assert.deepEqual(codes('snippet foo\n\tbar\n', 'file:///tmp/snippets/all.snippets'), [])
+  })
+})
+
+describe('snippets json validation', () => {
+  it('reports invalid entries, scopes, prefixes and variables', () => {
+    let content = [
+      '{',
+      '  "log": { "prefix": "log", "body": ["log($TM_SELECTED_TEXT, ${FOO})", "\\\\$BAR"], "scope": "javascript,foo" },',
+      '  "log2": { "prefix": ["log", "x"], "body": 1, "scope": "javascript" },',
+      '  "nob": { "description": "x" },',
+      '  "bad": 1',
+      '}'
+    ].join('\n')
+    let res = getJsonDiagnostics(content, true, new Set(['javascript'])).map(o => [o.range.start.line, o.code])
+    assert.deepEqual(res, [[1, 15], [1, 17], [2, 14], [2, 16], [3, 13], [3, 13], [4, 12]])
+  })
+
+  it('allows file template without prefix', () => {
+    let content = '{\n  "tpl": { "body": "x", "isFileTemplate": true },\n  "nop": { "body": "x", "isFileTemplate": false }\n}'
+    assert.deepEqual(getJsonDiagnostics(content, false).map(o => [o.range.start.line, o.code]), [[2, 13]])
+  })
+
+  it('reports parse errors with position', () => {
+    let res = getJsonDiagnostics('{\n  "a": { "prefix": "a", "body": "b" ', false)
+    assert.deepEqual(res.map(o => [o.range.start, o.code]), [[{ line: 1, character: 36 }, 11], [{ line: 1, character: 36 }, 11]])
+  })
+})
+
+describe('snippet file hover', () => {
+  function textDocument(uri: string, content: string): any {
+    return { uri, getText: () => content }
+  }
+
+  function createManager(): ProviderManager {
+    return new ProviderManager({ appendLine: () => {} } as any, [], {} as any)
+  }
+
+  it('shows resolved body and properties of ultisnips snippet', async () => {
+    let content = 'priority -10\ncontext "True"\nsnippet log "console log" bA\nconsole.log(${1:msg})\nendsnippet\n'
+    let provider = new SnippetHoverProvider(createManager())
+    let hover = await provider.provideHover(textDocument('file:///tmp/UltiSnips/javascript.snippets', content), { line: 2, character: 1 }, undefined)
+    let value = (hover.contents as any).value as string
+    assert.ok(value.startsWith('``` javascript\nconsole.log(msg)\n```'))
+    assert.ok(value.includes('**Trigger**: `log` (beginning of line, auto trigger)'))
+    assert.ok(value.includes('**Options**: `bA`'))
+    assert.ok(value.includes('**Priority**: -10'))
+    assert.ok(value.includes('**Context**: `True`'))
+    assert.equal(await provider.provideHover(textDocument('file:///tmp/UltiSnips/javascript.snippets', content), { line: 3, character: 1 }, undefined), null)
+  })
+
+  it('shows prefixes of json snippet', async () => {
+    let content = '{\n  "Log": {\n    "prefix": ["log", "cl"],\n    "body": ["console.log($1)"]\n  }\n}'
+    let hover = await new SnippetHoverProvider(createManager()).provideHover(textDocument('file:///tmp/js.code-snippets', content), { line: 1, character: 3 }, undefined)
+    let value = (hover.contents as any).value as string
+    assert.ok(value.includes('console.log()'))
+    assert.ok(value.includes('**Trigger**: `log`, `cl` (word boundary)'))
+  })
+
+  it('resolves body by resolveSnippetBody of provider', async () => {
+    let manager = createManager()
+    manager.regist({ resolveSnippetBody: async (body: string) => body.replace('`!js 1 + 1`', '2') } as any, 'ultisnips')
+    let content = 'snippet two "two"\nvalue: `!js 1 + 1`\nendsnippet\n'
+    let hover = await new SnippetHoverProvider(manager).provideHover(textDocument('file:///tmp/UltiSnips/javascript.snippets', content), { line: 0, character: 1 }, undefined)
+    let value = (hover.contents as any).value as string
+    assert.ok(value.startsWith('``` javascript\nvalue: 2\n```'))
+  })
+})
+
+describe('snippet file outline', () => {
+  function textDocument(uri: string, content: string): any {
+    return { uri, getText: () => content, lines: content.split('\n') }
+  }
+
+  it('provides symbols of ultisnips blocks', () => {
+    let content = 'global !p\ndef f():\n  pass\nendglobal\n\nsnippet "a b" "Desc" r\nfoo\nendsnippet\n'
+    let symbols = new SnippetOutlineProvider().provideDocumentSymbols(textDocument('file:///tmp/UltiSnips/all.snippets', content), undefined)
+    assert.deepEqual(symbols.map(o => [o.name, o.range.start.line, o.range.end.line]), [['global !p', 0, 3], ['a b "Desc"', 5, 7]])
+  })
+
+  it('provides folding ranges of snipmate and json snippets', () => {
+    let provider = new SnippetOutlineProvider()
+    let content = 'snippet a\n\tfoo\n\n\tbar\n\nsnippet b\n\tx\n'
+    let ranges = provider.provideFoldingRanges(textDocument('file:///tmp/snippets/all.snippets', content), {}, undefined)
+    assert.deepEqual(ranges.map(o => [o.startLine, o.endLine]), [[0, 3], [5, 6]])
+    content = '{\n  "Log": {\n    "prefix": "log",\n    "body": "x"\n  }\n}'
+    ranges = provider.provideFoldingRanges(textDocument('file:///tmp/js.json', content), {}, undefined)
+    assert.deepEqual(ranges.map(o => [o.startLine, o.endLine]), [[1, 4]])
+  })
+})
+
+describe('snippet definitions', () => {
+  it('finds definitions of prefix and marks shadowed ones', () => {
+    let channel = { appendLine: () => {} } as any
+    let manager = new ProviderManager(channel, [], {} as any)
+    let high = makeSnippet('foo', 1, 'high')
+    let low = Object.assign(makeSnippet('foo', 0, 'low'), { lnum: 5 })
+    let other = makeSnippet('bar', 0, 'bar')
+    let textmate = Object.assign(makeSnippet('foo', -1, 'textmate'), { filepath: '/tmp/all.json' })
+    manager.regist({ getSnippets: () => [high, other], getAllSnippets: () => [high, low, other] } as any, 'ultisnips')
+    manager.regist({ getSnippets: () => [textmate], getAllSnippets: () => [textmate] } as any, 'snippets')
+    let res = getDefinitions(manager, 'all', 'foo')
+    assert.deepEqual(res.map(o => [o.snippet.provider, o.snippet.body, o.shadowed, o.rule]), [
+      ['ultisnips', 'high', false, undefined],
+      ['ultisnips', 'low', true, 'priority'],
+      ['snippets', 'textmate', true, 'priority']
+    ])
+  })
+
+  it('reports conflicts with the rule that decided them', () => {
+    let channel = { appendLine: () => {} } as any
+    let manager = new ProviderManager(channel, [], {} as any)
+    let first = Object.assign(makeSnippet('foo', -1, 'first'), { filepath: '/tmp/a.json', lnum: 1 })
+    let second = Object.assign(makeSnippet('foo', -1, 'second'), { filepath: '/tmp/a.json', lnum: 3 })
+    let snipmate = Object.assign(makeSnippet('foo', undefined, 'snipmate'), { filepath: '/tmp/b.snippets' })
+    let single = makeSnippet('bar', 0, 'bar')
+    manager.regist({ getSnippets: () => [first, single], getAllSnippets: () => [first, second, single] } as any, 'snippets')
+    manager.regist({ getSnippets: () => [snipmate], getAllSnippets: () => [snipmate] } as any, 'snipmate')
+    let res = getConflicts(manager, 'all')
+    assert.equal(res.length, 1)
+    assert.equal(res[0].prefix, 'foo')
+    assert.deepEqual(res[0].definitions.map(o => [o.snippet.body, o.rule]), [
+      ['first', undefined],
+      ['second', 'dedupe'],
+      ['snipmate', undefined]
+    ])
+  })
+
+  it('excludes definitions of other workspace folders', () => {
+    let channel = { appendLine: () => {} } as any
+    let manager = new ProviderManager(channel, [], {} as any)
+    let global = makeSnippet('foo', 0, 'global')
+    let project = Object.assign(makeSnippet('foo', 0, 'project'), { filepath: '/ws/.vim/UltiSnips/all.snippets', folder: '/ws' })
+    manager.regist({ getSnippets: () => [global, project], getAllSnippets: () => [global, project] } as any, 'ultisnips')
+    assert.deepEqual(getDefinitions(manager, 'all', 'foo', '/other/a.js').map(o => o.snippet.body), ['global'])
+    assert.deepEqual(getDefinitions(manager, 'all', 'foo', '/ws/a.js').map(o => o.snippet.body).sort(), ['global', 'project'])
+    assert.deepEqual(getConflicts(manager, 'all', '/other/a.js'), [])
+  })
+
+  it('gets filetype of snippet file by name', () => {
+    assert.equal(snippetFileFiletype('/tmp/UltiSnips/_.snippets'), 'all')
+    assert.equal(snippetFileFiletype('/tmp/UltiSnips/javascript-react.snippets'), 'javascript')
+    assert.equal(snippetFileFiletype('/tmp/UltiSnips/typescript_react.snippets'), 'typescriptreact')
+    assert.equal(snippetFileFiletype('/tmp/snippets/lua.json'), 'lua')
+  })
+})
+
+describe('file templates', () => {
+  it('picks templates by pattern, isFileTemplate and _template trigger', () => {
+    let test = makeSnippet('testfile', 0, 'describe()')
+    let json = Object.assign(makeSnippet('', -1, 'json template'), { isFileTemplate: true })
+    let ultisnips = makeSnippet('_template', 0, 'ultisnips template')
+    let snippets = [test, json, ultisnips, makeSnippet('foo', 0, 'foo')]
+    let configs = [
+      { pattern: 'src/**/*.test.ts', prefix: 'testfile' },
+      { pattern: '*.ts', filetype: 'typescript', body: ['// $1', '$0'] }
+    ]
+    let res = getTemplates(snippets, configs, 'typescript', 'src/a/b.test.ts')
+    assert.deepEqual(res.map(o => o.body), ['describe()', '// $1\n$0', 'json template', 'ultisnips template'])
+    res = getTemplates(snippets, configs, 'javascript', 'lib/b.ts')
+    assert.deepEqual(res.map(o => o.body), ['json template', 'ultisnips template'])
+  })
+})
+
+describe('external provider', () => {
+  it('caches snippets until provider notify change', async () => {
+    let calls = 0
+    let body = 'first'
+    let listener: () => void
+    let provider = new ExternalProvider('external', {
+      getSnippets: () => {
+        calls++
+        return [makeSnippet('foo', 0, body)]
+      },
+      getTriggerSnippets: () => [],
+      onDidChangeSnippets: (fn: () => void) => {
+        listener = fn
+        return { dispose: () => { listener = undefined } }
+      }
+    } as any, { extends: {}, excludes: [], trace: false }, { appendLine: () => {} } as any)
+    await provider.init()
+    assert.equal(provider.getSnippets('all')[0].body, 'first')
+    assert.equal(provider.getSnippets('all')[0].body, 'first')
+    assert.equal(calls, 1)
+    body = 'second'
+    listener()
+    assert.equal(provider.getSnippets('all')[0].body, 'second')
+    assert.deepEqual(await provider.getSnippetFiles('all'), [])
+    assert.equal(await provider.checkContext('x'), true)
+    provider.dispose()
+    assert.equal(listener, undefined)
+  })
+})
+
+describe('snippets api', () => {
+  it('loads snippets of filetype before list', async () => {
+    let loaded: string[] = []
+    let manager = new ProviderManager({ appendLine: () => {} } as any, [], {} as any)
+    manager.regist({
+      loadSnippetsByFiletype: async (filetype: string) => {
+        loaded.push(filetype)
+      },
+      getSnippets: (filetype: string) => loaded.includes(filetype) ? [makeSnippet('foo', 0, 'foo')] : []
+    } as any, 'ultisnips')
+    assert.deepEqual((await listSnippets(manager, 'lua')).map(o => o.prefix), ['foo'])
+    assert.deepEqual(loaded, ['lua'])
+  })
 })
 
-describe('massCode createSnippet', () => {
-  let originalRequest: typeof http.request
-  let requestBodies: string[]
+describe('syntax restricted snippets', () => {
+  let dir: string
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coc-snippets-syntax-'))
+  })
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('parses syntax command of following snippet', async () => {
+    let filepath = path.join(dir, 'all.snippets')
+    fs.writeFileSync(filepath, 'syntax "Comment, !String"\nsnippet todo\nTODO\nendsnippet\n\nsnippet fn\nfunction\nendsnippet\n')
+    const parser = new UltiSnipsParser({ appendLine: () => {} } as any)
+    let res = await parser.parseUltisnipsFile('all', filepath)
+    assert.deepEqual(res.snippets.map(o => o.syntax), [['Comment', '!String'], undefined])
+  })
+
+  it('matches syntax names at cursor', () => {
+    assert.equal(parseSyntax(''), undefined)
+    assert.deepEqual(parseSyntax(['comment']), ['comment'])
+    assert.equal(matchSyntax(undefined, []), true)
+    assert.equal(matchSyntax(['Comment'], ['vimLineComment', 'Comment']), true)
+    assert.equal(matchSyntax(['Comment'], ['String']), false)
+    assert.equal(matchSyntax(['!String'], ['jsString', 'String']), false)
+    assert.equal(matchSyntax(['!String'], []), true)
+    assert.equal(matchSyntax(['comment', '!todo'], ['Comment', 'Todo']), false)
+  })
+})
+
+describe('javascript evaluation', () => {
+  const doc = {
+    uri: 'file:///tmp/foo.ts',
+    filetype: 'typescript',
+    textDocument: { lines: ['', 'let x = 3x4'] },
+    getline: (line: number) => ['', 'let x = 3x4'][line]
+  } as any
+
+  it('checks context and resolves interpolation', () => {
+    let snip = createJsSnip(doc, { line: 1, character: 11 }, 'selected', /(\d+)x(\d+)$/)
+    assert.deepEqual(snip.match, ['3x4', '3', '4'])
+    assert.equal(snip.before, 'let x = 3x4')
+    assert.equal(checkJsContext('js:snip.line == 1 && snip.filetype == "typescript"', snip), true)
+    assert.equal(checkJsContext('js: snip.buffer[0].length > 0', snip), false)
+    let body = '`!js match[1] * match[2]` `!js snip.rv = snip.visual_text.toUpperCase()` `!js snip.filepath.split("/").pop()` `!js "$1"`'
+    assert.equal(resolveJsCode(body, snip), '12 SELECTED foo.ts \\$1')
+  })
+
+  it('replaces interpolation with error by empty string', () => {
+    let snip = createJsSnip(doc, { line: 0, character: 0 }, '')
+    let errors: Error[] = []
+    assert.equal(resolveJsCode('a`!js process.exit()`b', snip, e => errors.push(e)), 'ab')
+    assert.equal(errors.length, 1)
+    assert.throws(() => checkJsContext('js:while (true) {}', snip))
+  })
+
+  it('does not expose objects of extension to code', () => {
+    let snip = createJsSnip(doc, { line: 0, character: 0 }, '')
+    assert.throws(() => checkJsContext('js:snip.constructor.constructor("return process")()', snip), /process is not defined/)
+    assert.throws(() => checkJsContext('js:path.basename("a")', snip), /path is not defined/)
+    assert.equal(resolveJsCode('`!js snip.buffer.constructor.constructor("return typeof require")()`', snip), 'undefined')
+  })
+
+  it('keeps snippets without python code when python is not supported', async () => {
+    let dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coc-snippets-nopython-'))
+    let filepath = path.join(dir, 'all.snippets')
+    let content = [
+      'snippet "(\\d+)x" "converted" r', '`!js match[1]`', 'endsnippet',
+      'snippet "(?>a)b" "atomic" r', 'ab', 'endsnippet',
+      'snippet py "python"', '`!p snip.rv = 1`', 'endsnippet',
+      'context "js:true"', 'snippet js "javascript"', 'js', 'endsnippet'
+    ]
+    fs.writeFileSync(filepath, content.join('\n') + '\n')
+    const channel = { appendLine: () => {} } as any
+    const config = { extends: {}, excludes: [], trace: false, directories: [] } as any
+    const provider = new UltiSnippetsProvider(channel, config, { subscriptions: [], asAbsolutePath: () => '' } as any)
+    ;(provider as any).parser = new UltiSnipsParser(channel)
+    ;(provider as any).pythonSupport = false
+    await provider.loadSnippetsFromFile({ filepath, directory: dir, filetype: 'all' })
+    fs.rmSync(dir, { recursive: true, force: true })
+    assert.deepEqual(provider.getSnippets('all').map(o => o.description).sort(), ['converted', 'javascript'])
+  })
+
+  it('treats snippet with failed context as not matching', async () => {
+    let errors: string[] = []
+    const channel = { appendLine: (line: string) => errors.push(line) } as any
+    const config = { extends: {}, excludes: [], trace: false, directories: [] } as any
+    const provider = new UltiSnippetsProvider(channel, config, { subscriptions: [], asAbsolutePath: () => '' } as any)
+    let bad = Object.assign(makeSnippet('foo', 0, 'bad'), { context: 'js:snip.x.y' })
+    ;(provider as any).snippetFiles = [
+      { filepath: '/a/all.snippets', filetype: 'all', clearsnippets: null, snippets: [makeSnippet('foo', 0, 'good'), bad] }
+    ]
+    ;(provider as any).checkContext = async () => {
+      throw new Error('bad context')
+    }
+    const doc = { uri: 'file:///tmp/a.txt', bufnr: -1, filetype: 'txt', isWord: (ch: string) => /\w/.test(ch), getline: () => 'foo' } as any
+    let edits = await provider.getTriggerSnippets(doc, { line: 0, character: 3 })
+    assert.deepEqual(edits.map(o => o.newText), ['good'])
+    assert.ok(errors.some(line => line.includes('bad context')))
+  })
+})
+
+describe('python regex conversion', () => {
+  it('translates python only constructs', () => {
+    assert.deepEqual(convertRegex('(?x) a \\d+  # digits\n [ ]b'), { source: 'a\\d+[ ]b', flags: '' })
+    assert.deepEqual(convertRegex('(?is)a.b'), { source: 'a.b', flags: 'is' })
+    assert.deepEqual(convertRegex('\\Afoo\\Z'), { source: '^foo$', flags: '' })
+    assert.deepEqual(convertRegex('(?P<n>\\w)(?P=n)(?#same)'), { source: '(?<n>\\w)\\k<n>', flags: '' })
+    assert.deepEqual(convertRegex('a{,2}[]x]'), { source: 'a{0,2}[\\]x]', flags: '' })
+    assert.ok(createTriggerRegex('(?i)fOo\\z').test('let FOO'))
+  })
+
+  it('throws for unsupported constructs', () => {
+    for (let pattern of ['(a)?(?(1)a|b)', '(?>a)', 'a*+', '(?i:a)']) {
+      assert.throws(() => convertRegex(pattern), pattern)
+    }
+    assert.deepEqual(convertRegex('(?:a)*?'), { source: '(?:a)*?', flags: '' })
+  })
+
+  it('keeps snippet with unsupported regex for python', async () => {
+    let dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coc-snippets-regex-'))
+    let filepath = path.join(dir, 'all.snippets')
+    fs.writeFileSync(filepath, 'snippet "(?>ab)c" "atomic" r\nfoo\nendsnippet\n\nsnippet "(?x) b \\Z" "verbose" r\nbar\nendsnippet\n\nsnippet "a(" "invalid" r\nbaz\nendsnippet\n')
+    const parser = new UltiSnipsParser({ appendLine: () => {} } as any)
+    let res = await parser.parseUltisnipsFile('all', filepath)
+    fs.rmSync(dir, { recursive: true, force: true })
+    assert.deepEqual(res.snippets.map(o => o.description), ['atomic', 'verbose'])
+    assert.equal(res.snippets[0].regex, null)
+    assert.equal(res.snippets[0].pythonRegex, true)
+    assert.equal(res.snippets[1].pythonRegex, undefined)
+    assert.ok(res.snippets[1].regex.test('ab'))
+  })
+
+  it('matches unsupported regex by python like UltiSnips', async t => {
+    let hasPython = await workspace.nvim.call('pyxeval', ['1']).then(() => true, () => false)
+    if (!hasPython) {
+      t.skip('python not supported')
+      return
+    }
+    const channel = { appendLine: () => {} } as any
+    const config = { extends: {}, excludes: [], trace: false, directories: [] } as any
+    const provider = new UltiSnippetsProvider(channel, config, { subscriptions: [], asAbsolutePath: () => '' } as any)
+    const isWord = (ch: string) => /\w/.test(ch)
+    let snippet = { originRegex: '(?>ab)c', triggerKind: TriggerKind.InWord }
+    // the first match of re.search doesn't end at end of line
+    assert.deepEqual(await (provider as any).matchPythonRegex(snippet, 'abc x abc', isWord), { text: 'abc', character: 6 })
+    assert.equal(await (provider as any).matchPythonRegex(snippet, 'abc x', isWord), undefined)
+  })
+
+  it('reports invalid regex only', () => {
+    let uri = 'file:///tmp/UltiSnips/all.snippets'
+    let content = 'snippet "(?>ab)" "" r\nfoo\nendsnippet\nsnippet "a(" "" r\nfoo\nendsnippet\n'
+    assert.deepEqual(getDiagnostics(uri, content).map(o => [o.range.start.line, o.code]), [[3, 3]])
+  })
+})
+
+describe('auto trigger resolve', () => {
+  function edit(prefix: string, start: number, priority = 0, context?: string): SnippetEditWithSource {
+    return { source: 'ultisnips', prefix, newText: prefix, range: Range.create(0, start, 0, 10), location: '/tmp/all.snippets', lnum: 0, description: '', priority, context }
+  }
+
+  it('prefers context, longer match and priority', () => {
+    let a = edit('a', 8)
+    let b = edit('b', 6)
+    let c = edit('c', 8, 0, 'True')
+    let d = edit('d', 8, 1)
+    assert.deepEqual(resolveAutoTrigger([a, b, c]), { edits: [c], rule: 'context' })
+    assert.deepEqual(resolveAutoTrigger([a, b]), { edits: [b], rule: 'match length' })
+    assert.deepEqual(resolveAutoTrigger([a, d]), { edits: [d], rule: 'priority' })
+    assert.deepEqual(resolveAutoTrigger([a, edit('e', 8)]).rule, undefined)
+    assert.deepEqual(resolveAutoTrigger([a]), { edits: [a] })
+  })
+
+  it('records conflicts', () => {
+    clearAutoTriggerConflicts()
+    for (let i = 0; i < 101; i++) {
+      recordAutoTriggerConflict({ time: new Date(), filepath: '/tmp/a.tex', line: i, candidates: [], rule: 'first' })
+    }
+    let conflicts = getAutoTriggerConflicts()
+    assert.equal(conflicts.length, 100)
+    assert.equal(conflicts[0].line, 1)
+    clearAutoTriggerConflicts()
+    assert.equal(getAutoTriggerConflicts().length, 0)
+  })
+})
+
+describe('massCode mapping', () => {
+  it('maps folders, tags, favorites and fragments', () => {
+    let folders = [{ id: 'f1', name: 'Frontend' }, { id: 'f2', name: 'Hooks', parentId: 'f1' }, { id: 'f3', name: 'Other' }]
+    let tags = [{ id: 't1', name: 'line-begin' }]
+    let items: any[] = [
+      { id: 'a', name: 'hook', description: 'React hook', folderId: 'f2', isFavorites: true, isDeleted: false, tagsIds: ['t1'], content: [{ label: 'Fragment 1', language: 'javascript', value: 'a' }] },
+      { id: 'b', name: 'comp', folderId: 'f3', isFavorites: false, isDeleted: false, content: [{ label: 'Class', language: 'c_cpp', value: 'b1' }, { label: 'Main Func', language: 'golang', value: 'b2' }] }
+    ]
+    let res = mapMassCodeItems(items, folders, tags, { Frontend: ['javascript', 'typescript'] })
+    assert.deepEqual(res.map(o => [o.filepath, o.lnum, o.prefix, o.description, o.filetype, o.triggerKind, o.priority]), [
+      ['a', 0, 'hook', 'React hook', 'javascript', TriggerKind.LineBegin, 1],
+      ['a', 0, 'hook', 'React hook', 'typescript', TriggerKind.LineBegin, 1],
+      ['b', 0, 'comp-class', 'comp', 'cpp', TriggerKind.WordBoundary, 0],
+      ['b', 1, 'comp-main-func', 'comp', 'go', TriggerKind.WordBoundary, 0]
+    ])
+  })
+})
+
+describe('massCode synchronisation', () => {
+  let server: http.Server
+  let items: any[]
+  let requests: Array<{ method: string, url: string, body: any }>
+  let config: any
 
   before(async () => {
     await waitProviderInit()
-    originalRequest = http.request
-    requestBodies = []
-    http.request = ((_options: http.RequestOptions, callback?: (res: any) => void) => {
-      const res = new EventEmitter() as any
-      res.statusCode = 200
-      process.nextTick(() => {
-        callback?.(res)
-        res.emit('data', Buffer.from('{}'))
-        res.emit('end')
+    items = [{
+      isDeleted: false,
+      isFavorites: false,
+      folderId: 'f1',
+      name: 'hello',
+      content: [{ label: 'Fragment 1', language: 'javascript', value: 'hello()' }],
+      id: 'abc',
+      createdAt: 0,
+      updatedAt: 0
+    }]
+    requests = []
+    // stand-in of massCode http server
+    server = http.createServer((req, res) => {
+      let chunks: Buffer[] = []
+      req.on('data', chunk => chunks.push(chunk))
+      req.on('end', () => {
+        let text = Buffer.concat(chunks).toString()
+        let body = text ? JSON.parse(text) : undefined
+        requests.push({ method: req.method, url: req.url, body })
+        let result: any = {}
+        if (req.method == 'GET' && req.url == '/snippets/embed-folder') {
+          result = items
+        } else if (req.method == 'POST' && req.url == '/snippets/create') {
+          result = Object.assign({}, body, { id: `id${items.length}`, folderId: '' })
+          items.push(result)
+        } else if (req.method == 'PATCH') {
+          let item = items.find(o => `/snippets/${o.id}` == req.url)
+          Object.assign(item, body)
+          result = item
+        }
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify(result))
       })
-      return {
-        write: (body: string) => {
-          requestBodies.push(body)
-        },
-        on: () => {},
-        end: () => {}
-      } as any
-    }) as any
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    let port = (server.address() as any).port
+    config = { host: '127.0.0.1', port, extends: {}, excludes: [], trace: false }
   })
 
-  after(() => {
-    http.request = originalRequest
+  after(async () => {
+    await new Promise(resolve => server.close(resolve))
   })
 
-  it('creates a snippet when the command is invoked without text', async () => {
+  it('creates a snippet with id from massCode when the command is invoked without text', async () => {
     const channel = { appendLine: () => {} } as any
-    const config = { host: 'localhost', port: 3033, extends: {}, excludes: [], trace: false } as any
     const provider = new MassCodeProvider(channel, config)
-    ;(provider as any).init = async () => {}
+    await provider.init()
     const originalRequestInput = window.requestInput
     window.requestInput = async () => 'mass-test' as any
     try {
       await provider.createSnippet()
-      assert.ok(requestBodies.length > 0)
-      const payload = JSON.parse(requestBodies[0])
+      const payload = requests.find(o => o.method == 'POST').body
       assert.equal(payload.name, 'mass-test')
       assert.equal(payload.content[0].value, '')
-      assert.equal(payload.id, '0')
+      assert.equal(payload.id, undefined)
+      const created = provider.getSnippets(payload.content[0].language).find(o => o.prefix == 'mass-test')
+      assert.equal(created.filepath, 'id1')
+      assert.equal(created.lnum, 0)
+    } finally {
+      window.requestInput = originalRequestInput
+    }
+  })
+
+  it('refreshes, updates and deletes snippets by id', async () => {
+    const channel = { appendLine: () => {} } as any
+    const provider = new MassCodeProvider(channel, config)
+    await provider.init()
+    items[0].content[0].value = 'changed()'
+    assert.equal(await provider.refresh(false), true)
+    let snippet = provider.getSnippets('javascript').find(o => o.prefix == 'hello')
+    assert.equal(snippet.body, 'changed()')
+    ;(provider as any).pickSnippet = async () => snippet
+    const originalRequestInput = window.requestInput
+    const originalShowPrompt = window.showPrompt
+    window.requestInput = async () => 'renamed' as any
+    window.showPrompt = async () => true
+    try {
+      await provider.updateSnippet('updated()\n')
+      let patch = requests.filter(o => o.method == 'PATCH')[0]
+      assert.equal(patch.url, '/snippets/abc')
+      assert.equal(patch.body.content[0].value, 'updated()')
+      snippet = provider.getSnippets('javascript').find(o => o.filepath == 'abc')
+      assert.equal(snippet.prefix, 'renamed')
+      await provider.deleteSnippet()
+      assert.equal(items[0].isDeleted, true)
+      assert.equal(provider.getSnippets('javascript').some(o => o.filepath == 'abc'), false)
     } finally {
       window.requestInput = originalRequestInput
+      window.showPrompt = originalShowPrompt
+    }
+  })
+
+  it('backs off and logs once when massCode not running', async () => {
+    let closed = http.createServer()
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve))
+    let port = (closed.address() as any).port
+    await new Promise(resolve => closed.close(resolve))
+    let lines: string[] = []
+    const channel = { appendLine: (line: string) => lines.push(line) } as any
+    const subscriptions = []
+    const provider = new MassCodeProvider(channel, Object.assign({}, config, { port, refreshInterval: 0.01 }), subscriptions)
+    const originalShowErrorMessage = window.showErrorMessage
+    window.showErrorMessage = async () => undefined
+    try {
+      await provider.init()
+      await new Promise(resolve => setTimeout(resolve, 300))
+      assert.equal(lines.filter(line => line.includes('Error on load massCode snippets')).length, 1)
+      // 10, 20, 40, 80, 160 ms
+      assert.ok((provider as any).failures <= 6)
+    } finally {
+      window.showErrorMessage = originalShowErrorMessage
+      subscriptions.forEach(o => o.dispose())
     }
   })
 })
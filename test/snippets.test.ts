@@ -61,6 +61,26 @@ describe('snippet loading and expansion', () => {
       return line.startsWith('for (;;)')
     })
   })
+
+  it('picks one of multiple snippets from the candidates list', async () => {
+    let nvim = workspace.nvim
+    await nvim.command('call setline(1, "")')
+    // Leave the snippet session of previous test before typing the trigger.
+    await nvim.input('<Esc>')
+    await nvim.call('feedkeys', ['Aduptest', 'in'])
+    await nvim.call('coc#rpc#request', ['doKeymap', ['coc-snippets-expand']])
+    await waitFor(async () => await nvim.eval('&filetype') == 'list')
+    // Tabs of labels are aligned by the list, check descriptions by includes.
+    let lines = await nvim.call('getline', [1, '$']) as string[]
+    assert.equal(lines.length, 2)
+    assert.ok(lines.some(l => l.includes('first candidate')))
+    let idx = lines.findIndex(l => l.includes('second candidate'))
+    assert.notEqual(idx, -1)
+    await nvim.call('cursor', [idx + 1, 1])
+    // Keys are read by the list prompt, <CR> invokes the default expand action.
+    await nvim.call('feedkeys', ['\r', 'x'])
+    await waitFor(() => doc.getline(0) == 'second()')
+  })
 })
 
 describe('snipmate snippet loading', () => {
@@ -140,6 +160,30 @@ describe('snipmate snippet loading', () => {
       fs.rmSync(dir, { recursive: true, force: true })
     }
   })
+
+  it('triggers autosnippet and configured prefixes on type', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coc-snippets-snipmate-auto-'))
+    try {
+      const filepath = path.join(dir, 'tex.snippets')
+      fs.writeFileSync(filepath, 'autosnippet ;a alpha\n\t\\alpha\nsnippet ;b beta\n\t\\beta\nsnippet ;c\n\t\\gamma\n', 'utf8')
+      const channel = { appendLine: () => {} } as any
+      const config = { extends: {}, excludes: [], trace: false, author: '', autoTriggerPrefixes: { all: [';c'] } } as any
+      const provider = new SnipmateProvider(channel, config, [])
+      ;(provider as any).fileItems = [{ filepath, directory: dir, filetype: 'tex' }]
+      await provider.loadSnippetsByFiletype('tex')
+      const doc = { uri: 'file:///tmp/a.tex', bufnr: -1, filetype: 'tex', isWord: (ch: string) => /\w/.test(ch), getline: () => 'x ;a ;b ;c' } as any
+      const prefixes = async (character: number, autoTrigger: boolean) => {
+        const edits = await provider.getTriggerSnippets(doc, { line: 0, character }, autoTrigger)
+        return edits.map(o => o.prefix)
+      }
+      assert.deepEqual(await prefixes(4, true), [';a'])
+      assert.deepEqual(await prefixes(7, true), [])
+      assert.deepEqual(await prefixes(7, false), [';b'])
+      assert.deepEqual(await prefixes(10, true), [';c'])
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
 })
 
 describe('ultisnips snippet loading', () => {
@@ -206,6 +250,30 @@ describe('ultisnips snippet loading', () => {
     const files = await provider.getSnippetFiles('ruby')
     assert.deepEqual(files.map(f => path.basename(f)), ['all.snippets'])
   })
+
+  it('reloads, adds and removes snippet files on change', async () => {
+    const provider = makeProvider()
+    ;(provider as any).fileItems = (await provider.loadAllFileItems(workspace.env.runtimepath))
+      .filter((i: any) => i.directory == dir)
+    await provider.loadSnippetsByFiletype('ruby')
+    const filepath = path.join(dir, 'all_extra.snippets')
+    try {
+      fs.writeFileSync(filepath, 'snippet extra "extra"\nfirst body\nendsnippet', 'utf8')
+      await provider.onFileChange(filepath, 'change')
+      assert.equal(provider.getSnippets('ruby').find(s => s.prefix == 'extra').body, 'first body')
+      fs.writeFileSync(filepath, 'snippet extra "extra"\nsecond body\nendsnippet', 'utf8')
+      // make sure the mtime changed on file systems with coarse timestamps
+      const time = new Date(Date.now() + 2000)
+      fs.utimesSync(filepath, time, time)
+      await provider.onFileChange(filepath, 'change')
+      assert.equal(provider.getSnippets('ruby').find(s => s.prefix == 'extra').body, 'second body')
+      fs.rmSync(filepath)
+      await provider.onFileChange(filepath, 'delete')
+      assert.equal(provider.getSnippets('ruby').some(s => s.prefix == 'extra'), false)
+    } finally {
+      fs.rmSync(filepath, { force: true })
+    }
+  })
 })
 
 describe('textmate snippet loading', () => {